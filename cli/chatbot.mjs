@@ -0,0 +1,149 @@
+/**
+ * Chatbot builder CLI
+ * -------------------
+ * Validates, converts and submits Q&A datasets kept outside the browser (e.g. in
+ * git), using the same core as the web app: src/core, bundled into dist-core by
+ * `npm run build:core` (the `cli` script does that first).
+ *
+ * Usage: npm run cli -- <command> [options]
+ *
+ *   validate <file>...                          list problems; exit 1 if any file has one
+ *   convert <file> --to <format> [--out <file>] json | jsonl | csv | modelfile (stdout by default)
+ *   submit <file> [--backend <url>]             POST the payload to {backend}/chatbots
+ *
+ * Any format the builder imports is accepted. Files without a bot block (CSV,
+ * Markdown, ...) take metadata from --lab, --name, --email and --slug, which also
+ * override an exported payload's values. The backend defaults to $CHATBOT_BACKEND,
+ * then the local mock (npm run mock:backend). Backends that require sign-in take the
+ * owner's access token from --token or $CHATBOT_TOKEN (e.g. one issued by npm run mock:issuer).
+ *
+ * Exit codes: 0 ok, 1 problems found or the request failed, 2 usage errors.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { EXPORT_FORMATS, datasetProblems, loadDataset, serializePayload, submitPayload } from "../dist-core/index.js";
+
+const DEFAULT_BACKEND = "http://localhost:8081";
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  validate <file>...                     check datasets and list their problems
+  convert <file> --to <format>           write ${Object.keys(EXPORT_FORMATS).join(" | ")}
+  submit <file>                          send the dataset to the backend
+
+Options:
+  --to <format>      convert: output format
+  --out <file>       convert: write here instead of stdout
+  --backend <url>    submit: backend base URL (default $CHATBOT_BACKEND or ${DEFAULT_BACKEND})
+  --token <token>    submit: owner's access token, sent as a bearer header (default $CHATBOT_TOKEN)
+  --lab, --name, --email, --slug <value>
+                     bot metadata for files without it, or to override it
+  -h, --help         show this help`;
+
+class UsageError extends Error {}
+
+async function readDataset(file, values) {
+  const text = await readFile(file, "utf8");
+  const meta = { lab: values.lab, botName: values.name, ownerEmail: values.email };
+  return loadDataset(text, { fileName: basename(file), meta, slug: values.slug });
+}
+
+async function validate(files, values) {
+  if (!files.length) throw new UsageError("validate needs at least one file");
+  let failed = 0;
+  for (const file of files) {
+    let ds;
+    let problems;
+    try {
+      ds = await readDataset(file, values);
+      // Plain Q&A files carry no bot block, so only their pairs can be checked
+      problems = datasetProblems(ds, !ds.hasMeta);
+    } catch (e) {
+      problems = [e?.message || String(e)];
+    }
+    if (problems.length) failed++;
+    const docCount = ds?.payload.documents?.length ?? 0;
+    const docs = docCount ? `, ${docCount} document${docCount === 1 ? "" : "s"}` : "";
+    console.log(`${problems.length ? "✗" : "✓"} ${file}${ds ? ` (${ds.format}, ${ds.payload.pairs.length} pairs${docs})` : ""}`);
+    for (const p of problems) console.log(`    ${p}`);
+    for (const n of ds?.notices ?? []) if (!problems.includes(n)) console.log(`    note: ${n}`);
+  }
+  return failed ? 1 : 0;
+}
+
+async function convert(files, values) {
+  if (files.length !== 1) throw new UsageError("convert takes exactly one file");
+  if (!(values.to in EXPORT_FORMATS)) throw new UsageError(`--to must be one of ${Object.keys(EXPORT_FORMATS).join(", ")}`);
+  const ds = await readDataset(files[0], values);
+  for (const r of ds.rejected) console.error(`warning: skipped ${r.line ? `line ${r.line}` : `item ${r.item}`}: ${r.reason}`);
+  const text = serializePayload(ds.payload, values.to);
+  if (values.out) await writeFile(values.out, text);
+  else process.stdout.write(text);
+  return 0;
+}
+
+async function submit(files, values) {
+  if (files.length !== 1) throw new UsageError("submit takes exactly one file");
+  const ds = await readDataset(files[0], values);
+  const problems = datasetProblems(ds);
+  if (problems.length) {
+    console.error(`Not submitted: ${files[0]} has ${problems.length} problem${problems.length === 1 ? "" : "s"}:`);
+    for (const p of problems) console.error(`    ${p}`);
+    return 1;
+  }
+  const backend = values.backend || process.env.CHATBOT_BACKEND || DEFAULT_BACKEND;
+  const token = values.token || process.env.CHATBOT_TOKEN || undefined;
+  const data = await submitPayload(backend, ds.payload, { token });
+  console.log(`Submitted ${ds.payload.bot.slug} (${ds.payload.pairs.length} pairs) to ${backend}: ${data.status ?? "accepted"}${data.id ? `, request ${data.id}` : ""}`);
+  return 0;
+}
+
+const COMMANDS = { validate, convert, submit };
+
+async function main(args) {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        to: { type: "string" },
+        out: { type: "string", short: "o" },
+        backend: { type: "string" },
+        token: { type: "string" },
+        lab: { type: "string" },
+        name: { type: "string" },
+        email: { type: "string" },
+        slug: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (e) {
+    console.error(`${e.message}\n\n${USAGE}`);
+    return 2;
+  }
+  const [command, ...files] = parsed.positionals;
+  if (parsed.values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const run = COMMANDS[command];
+  if (!run) {
+    console.error(`${command ? `Unknown command "${command}"` : "No command given"}\n\n${USAGE}`);
+    return 2;
+  }
+  try {
+    return await run(files, parsed.values);
+  } catch (e) {
+    if (e instanceof UsageError) {
+      console.error(`${e.message}\n\n${USAGE}`);
+      return 2;
+    }
+    console.error(`error: ${e?.message || e}`);
+    return 1;
+  }
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,36 @@
+/**
+ * HS256 tokens shared by the mock issuer (which signs them) and the mock backend
+ * (which verifies them). Both read AUTH_SECRET, so set it the same for both or not at all.
+ */
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+const SECRET = process.env.AUTH_SECRET || "mock-auth-secret";
+
+const b64url = data => Buffer.from(data).toString("base64url");
+
+export function signToken(claims) {
+  const head = `${b64url(JSON.stringify({ alg: "HS256", typ: "JWT" }))}.${b64url(JSON.stringify(claims))}`;
+  return `${head}.${createHmac("sha256", SECRET).update(head).digest("base64url")}`;
+}
+
+/** -> { claims } for a valid, unexpired token, otherwise { error } */
+export function verifyToken(token) {
+  const [head, body, sig] = String(token ?? "").split(".");
+  if (!head || !body || !sig) return { error: "malformed token" };
+  const expected = createHmac("sha256", SECRET).update(`${head}.${body}`).digest();
+  const given = Buffer.from(sig, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return { error: "bad token signature" };
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    return { error: "malformed token" };
+  }
+  if (typeof claims.exp !== "number" || claims.exp * 1000 <= Date.now()) return { error: "token expired" };
+  return { claims };
+}
+
+/** The bearer token of a request, if any */
+export function bearerToken(req) {
+  return /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "")?.[1];
+}
@@ -0,0 +1,252 @@
+/**
+ * Mock chatbot backend
+ * --------------------
+ * Implements the endpoints the builder talks to, in memory, so the app can be
+ * developed and tried offline. Pick the "local" target in Backend settings.
+ *
+ * Usage: npm run mock:backend   (PORT defaults to 8081)
+ *
+ *   GET  /health     -> { status: "ok" }
+ *   GET  /models     -> { models: [{ name, kind, context_length, embedding_dim? }] }
+ *   POST /chatbots   -> 201 { id, slug, status } for a valid ExportPayload; a repeated
+ *        Idempotency-Key header gets the first response back instead of a new bot
+ *   GET  /chatbots   -> summaries of everything submitted since start-up
+ *   GET  /chatbots/{id}/status -> { status, updated_at, chat_url?, error? }
+ *   GET  /chatbots/{slug}        -> { slug, version_id, payload } with pair ids
+ *   PATCH /chatbots/{slug}       -> 200 { id, slug, version_id, status } for
+ *        { base_version, bot, changes: { added, updated, removed }, documents? }
+ *        (documents, when sent, replace the bot's whole list), or
+ *        409 { current_version } when base_version is stale
+ *   POST /chat/{slug} -> { answer, sources: [{ id, q, score }] } for { message, lang? }; the
+ *        answer is the best word-overlap match among the bot's pairs (no model). With a
+ *        lang, a match is answered from its translation in that language when it has one
+ *
+ * Deployments move queued -> building -> deployed on a timer (BUILD_SECONDS,
+ * default 20). Bots whose name contains "fail" end up failed instead.
+ *
+ * Writes (POST and PATCH /chatbots) check the bearer token from mock/issuer.mjs: an
+ * invalid or expired token gets 401, and 403 when the bot's owner_email is not the
+ * signed-in address. REQUIRE_AUTH=1 also turns away requests without a token.
+ *
+ * FLAKY=0.5 makes that fraction of POST /chatbots answer 503, to exercise the
+ * builder's outbox; FLAKY_LATE=1 processes the request first, as if the response
+ * was lost on the way back (the retry must then be answered by idempotency).
+ */
+import http from "node:http";
+import { randomUUID } from "node:crypto";
+import { readJson, send } from "./http.mjs";
+import { bearerToken, verifyToken } from "./auth.mjs";
+
+const PORT = Number(process.env.PORT || 8081);
+const BUILD_SECONDS = Number(process.env.BUILD_SECONDS || 20);
+const FLAKY = Number(process.env.FLAKY || 0);
+const FLAKY_LATE = process.env.FLAKY_LATE === "1";
+const REQUIRE_AUTH = process.env.REQUIRE_AUTH === "1";
+
+const MODELS = [
+  { name: "qwen2.5:7b-instruct", kind: "chat", context_length: 32768, description: "Default; good multilingual instruction following" },
+  { name: "llama3.1:8b-instruct", kind: "chat", context_length: 131072 },
+  { name: "mistral:7b-instruct", kind: "chat", context_length: 32768 },
+  { name: "nomic-embed-text", kind: "embedding", context_length: 8192, embedding_dim: 768 },
+  { name: "mxbai-embed-large", kind: "embedding", context_length: 512, embedding_dim: 1024 },
+  { name: "bge-m3", kind: "embedding", context_length: 8192, embedding_dim: 1024, description: "Multilingual; for bots with pairs in several languages" },
+];
+
+/** slug -> { id, slug, version, payload, status, created_at } (payload pairs carry ids) */
+const bots = new Map();
+/** request id -> slug, so status stays answerable for every submission and update */
+const requests = new Map();
+/** Idempotency-Key -> { status, body } of the response first sent for it */
+const replies = new Map();
+let nextPairId = 1;
+
+const withIds = pairs => pairs.map(p => ({ ...p, id: p.id ?? `p${nextPairId++}` }));
+
+// Status is derived from elapsed time so nothing needs a background job.
+function currentStatus(record) {
+  const elapsed = (Date.now() - Date.parse(record.created_at)) / 1000;
+  const at = seconds => new Date(Date.parse(record.created_at) + seconds * 1000).toISOString();
+  if (elapsed < BUILD_SECONDS / 4) return { status: "queued", updated_at: record.created_at };
+  if (elapsed < BUILD_SECONDS) return { status: "building", updated_at: at(BUILD_SECONDS / 4) };
+  if (/fail/i.test(record.payload.bot.name)) {
+    return { status: "failed", updated_at: at(BUILD_SECONDS), error: "Embedding job failed: model nomic-embed-text not available (mock)" };
+  }
+  return { status: "deployed", updated_at: at(BUILD_SECONDS), chat_url: `http://localhost:${PORT}/chat/${record.slug}` };
+}
+
+const words = s => new Set(String(s ?? "").toLowerCase().match(/[a-z0-9]+/g) ?? []);
+
+// Stand-in retrieval: the share of the question's words found in a pair's question or variants.
+function bestPairs(payload, message) {
+  const asked = words(message);
+  return payload.pairs
+    .map(p => {
+      const known = words([p.q, ...(p.variants ?? [])].join(" "));
+      const hits = [...asked].filter(w => known.has(w)).length;
+      return { pair: p, score: asked.size ? hits / asked.size : 0 };
+    })
+    .filter(x => x.score > 0)
+    .sort((x, y) => y.score - x.score)
+    .slice(0, 3);
+}
+
+// The pair's translation in `lang` (same translation_group), or the pair itself.
+function translated(payload, pair, lang) {
+  if (!lang || pair.lang === lang || !pair.translation_group) return pair;
+  return payload.pairs.find(p => p.translation_group === pair.translation_group && p.lang === lang) ?? pair;
+}
+
+// -> { email } of the caller (null when anonymous is allowed), or { status, error } to refuse with
+function caller(req) {
+  const token = bearerToken(req);
+  if (!token) return REQUIRE_AUTH ? { status: 401, error: "sign-in required" } : { email: null };
+  const { claims, error } = verifyToken(token);
+  return error ? { status: 401, error } : { email: String(claims.email).toLowerCase() };
+}
+
+function ownedBy(email, bot) {
+  return email === null || String(bot?.owner_email ?? "").trim().toLowerCase() === email;
+}
+
+function validatePayload(body) {
+  const bot = body?.bot ?? {};
+  const errors = [];
+  if (!bot.name) errors.push("bot.name is required");
+  if (!bot.lab) errors.push("bot.lab is required");
+  if (!/.+@.+\..+/.test(bot.owner_email ?? "")) errors.push("bot.owner_email is invalid");
+  if (!bot.slug) errors.push("bot.slug is required");
+  if (!Array.isArray(body?.pairs) || !body.pairs.some(p => p?.q && p?.a)) errors.push("pairs must contain at least one q/a");
+  return errors;
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  if (req.method === "OPTIONS") return send(res, 204, {});
+
+  if (req.method === "GET" && url.pathname === "/health") {
+    return send(res, 200, { status: "ok", bots: bots.size, time: new Date().toISOString() });
+  }
+
+  if (req.method === "GET" && url.pathname === "/models") {
+    return send(res, 200, { models: MODELS });
+  }
+
+  if (req.method === "POST" && url.pathname === "/chatbots") {
+    const who = caller(req);
+    if (who.error) return send(res, who.status, { error: who.error });
+    const key = req.headers["idempotency-key"];
+    if (key && replies.has(key)) {
+      console.log(`replayed ${key}`);
+      const reply = replies.get(key);
+      return send(res, reply.status, reply.body);
+    }
+    const flaky = Math.random() < FLAKY;
+    if (flaky && !FLAKY_LATE) return send(res, 503, { error: "temporarily unavailable (mock FLAKY)" });
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return send(res, 400, { error: "invalid JSON body" });
+    }
+    const errors = validatePayload(body);
+    if (errors.length) return send(res, 422, { error: "invalid payload", details: errors });
+    if (!ownedBy(who.email, body.bot)) return send(res, 403, { error: `signed in as ${who.email}, not ${body.bot.owner_email}` });
+
+    const record = {
+      id: randomUUID(),
+      slug: body.bot.slug,
+      version: 1,
+      payload: { ...body, pairs: withIds(body.pairs) },
+      status: "queued",
+      created_at: new Date().toISOString(),
+    };
+    bots.set(record.slug, record);
+    requests.set(record.id, record.slug);
+    console.log(`queued ${record.slug} (${body.pairs.length} pairs)`);
+    const reply = { status: 201, body: { id: record.id, slug: record.slug, version_id: `v${record.version}`, status: record.status, created_at: record.created_at } };
+    if (key) replies.set(key, reply);
+    if (flaky) return send(res, 503, { error: "response lost (mock FLAKY_LATE)" });
+    return send(res, reply.status, reply.body);
+  }
+
+  if (req.method === "GET" && url.pathname === "/chatbots") {
+    return send(res, 200, {
+      items: Array.from(bots.values()).map(r => ({ id: r.id, slug: r.slug, created_at: r.created_at, ...currentStatus(r) })),
+    });
+  }
+
+  const statusMatch = url.pathname.match(/^\/chatbots\/([^/]+)\/status$/);
+  if (req.method === "GET" && statusMatch) {
+    const key = decodeURIComponent(statusMatch[1]);
+    const record = bots.get(requests.get(key) ?? key);
+    if (!record) return send(res, 404, { error: `no submission ${key}` });
+    return send(res, 200, { id: key, slug: record.slug, ...currentStatus(record) });
+  }
+
+  const botMatch = url.pathname.match(/^\/chatbots\/([^/]+)$/);
+  if (req.method === "GET" && botMatch) {
+    const record = bots.get(decodeURIComponent(botMatch[1]));
+    if (!record) return send(res, 404, { error: `no bot ${botMatch[1]}` });
+    return send(res, 200, { slug: record.slug, version_id: `v${record.version}`, payload: record.payload });
+  }
+
+  if (req.method === "PATCH" && botMatch) {
+    const who = caller(req);
+    if (who.error) return send(res, who.status, { error: who.error });
+    const record = bots.get(decodeURIComponent(botMatch[1]));
+    if (!record) return send(res, 404, { error: `no bot ${botMatch[1]}` });
+    if (!ownedBy(who.email, record.payload.bot)) return send(res, 403, { error: `${record.slug} belongs to ${record.payload.bot.owner_email}` });
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return send(res, 400, { error: "invalid JSON body" });
+    }
+    const current = `v${record.version}`;
+    if (body?.base_version !== current) {
+      return send(res, 409, { error: "version conflict", current_version: current, base_version: body?.base_version ?? null });
+    }
+    const { added = [], updated = [], removed = [] } = body.changes ?? {};
+    const edits = new Map(updated.map(p => [p.id, p]));
+    const gone = new Set(removed);
+    // Added pairs keep the id the client sent, so its baseline stays in sync.
+    const pairs = record.payload.pairs
+      .filter(p => !gone.has(p.id))
+      .map(p => (edits.has(p.id) ? { ...edits.get(p.id), id: p.id } : p))
+      .concat(withIds(added));
+    const next = { ...record.payload, bot: { ...record.payload.bot, ...body.bot, slug: record.slug }, pairs };
+    if (Array.isArray(body.documents)) next.documents = body.documents.length ? body.documents : undefined;
+    const errors = validatePayload(next);
+    if (errors.length) return send(res, 422, { error: "invalid payload", details: errors });
+    if (!ownedBy(who.email, next.bot)) return send(res, 403, { error: `signed in as ${who.email}, not ${next.bot.owner_email}` });
+
+    Object.assign(record, { id: randomUUID(), version: record.version + 1, payload: next, created_at: new Date().toISOString() });
+    requests.set(record.id, record.slug);
+    console.log(`updated ${record.slug} to v${record.version} (+${added.length} ~${updated.length} -${removed.length})`);
+    return send(res, 200, { id: record.id, slug: record.slug, version_id: `v${record.version}`, status: "queued", created_at: record.created_at });
+  }
+
+  const chatMatch = url.pathname.match(/^\/chat\/([^/]+)$/);
+  if (req.method === "POST" && chatMatch) {
+    const record = bots.get(decodeURIComponent(chatMatch[1]));
+    if (!record) return send(res, 404, { error: `no bot ${chatMatch[1]}` });
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return send(res, 400, { error: "invalid JSON body" });
+    }
+    const ranked = bestPairs(record.payload, body?.message).map(x => ({ ...x, pair: translated(record.payload, x.pair, body?.lang) }));
+    const answer = ranked[0]?.pair.a ?? record.payload.bot.fallback_message ?? "Sorry, I don't know the answer to that yet.";
+    return send(res, 200, {
+      answer,
+      sources: ranked.map(({ pair, score }) => ({ id: pair.id, q: pair.q, score: Number(score.toFixed(3)) })),
+    });
+  }
+
+  send(res, 404, { error: "not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`mock backend listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,78 @@
+/**
+ * Mock sign-in issuer
+ * -------------------
+ * Email one-time codes for the builder's owner sign-in, without sending email: the
+ * code is printed here instead. Tokens are HS256 JWTs the mock backend can verify.
+ *
+ * Usage: npm run mock:issuer   (PORT defaults to 8090)
+ *
+ *   POST /otp/start  { email }        -> { expires_in } (the code is logged below)
+ *   POST /otp/verify { email, code }  -> { access_token, token_type, expires_in, email },
+ *        or 401 for a wrong or expired code (five tries per code)
+ *   GET  /userinfo   (Bearer token)   -> { email, email_verified }
+ *
+ * TOKEN_SECONDS (default 3600) sets the session length; a small value is handy to
+ * try the builder's expired-session handling.
+ */
+import http from "node:http";
+import { randomInt } from "node:crypto";
+import { readJson, send } from "./http.mjs";
+import { bearerToken, signToken, verifyToken } from "./auth.mjs";
+
+const PORT = Number(process.env.PORT || 8090);
+const TOKEN_SECONDS = Number(process.env.TOKEN_SECONDS || 3600);
+const CODE_SECONDS = 600;
+const MAX_TRIES = 5;
+const ISSUER = `http://localhost:${PORT}`;
+
+/** email -> { code, expires, tries } */
+const codes = new Map();
+
+const normEmail = e => String(e ?? "").trim().toLowerCase();
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", ISSUER);
+  if (req.method === "OPTIONS") return send(res, 204, {});
+
+  if (req.method === "POST" && (url.pathname === "/otp/start" || url.pathname === "/otp/verify")) {
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return send(res, 400, { error: "invalid JSON body" });
+    }
+    const email = normEmail(body?.email);
+    if (!/.+@.+\..+/.test(email)) return send(res, 400, { error: "a valid email is required" });
+
+    if (url.pathname === "/otp/start") {
+      const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+      codes.set(email, { code, expires: Date.now() + CODE_SECONDS * 1000, tries: 0 });
+      console.log(`sign-in code for ${email}: ${code}`);
+      return send(res, 200, { expires_in: CODE_SECONDS });
+    }
+
+    const pending = codes.get(email);
+    if (!pending || pending.expires <= Date.now()) return send(res, 401, { error: "The code has expired. Request a new one." });
+    if (String(body?.code ?? "").trim() !== pending.code) {
+      if (++pending.tries >= MAX_TRIES) codes.delete(email);
+      return send(res, 401, { error: "That code is not right." });
+    }
+    codes.delete(email);
+    const now = Math.floor(Date.now() / 1000);
+    const token = signToken({ iss: ISSUER, sub: email, email, email_verified: true, iat: now, exp: now + TOKEN_SECONDS });
+    console.log(`signed in ${email} for ${TOKEN_SECONDS}s`);
+    return send(res, 200, { access_token: token, token_type: "Bearer", expires_in: TOKEN_SECONDS, email });
+  }
+
+  if (req.method === "GET" && url.pathname === "/userinfo") {
+    const { claims, error } = verifyToken(bearerToken(req));
+    if (error) return send(res, 401, { error });
+    return send(res, 200, { email: claims.email, email_verified: true });
+  }
+
+  send(res, 404, { error: "not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`mock issuer listening on ${ISSUER}`);
+});
@@ -0,0 +1,50 @@
+/**
+ * Mock Ollama server
+ * ------------------
+ * Stands in for an Ollama-compatible `/api/chat` endpoint so the "Try it"
+ * playground can be exercised without a GPU box.
+ *
+ * Usage: npm run mock:ollama   (PORT defaults to 11434, Ollama's own port)
+ *
+ * The reply echoes the first answer found in the system context, which is
+ * enough to see which pair the model would have been grounded on.
+ */
+import http from "node:http";
+import { readJson, send } from "./http.mjs";
+
+const PORT = Number(process.env.PORT || 11434);
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204, {});
+
+  if (req.method === "POST" && req.url === "/api/chat") {
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return send(res, 400, { error: "invalid JSON body" });
+    }
+    if (!body.model) return send(res, 400, { error: "model is required" });
+
+    const messages = Array.isArray(body.messages) ? body.messages : [];
+    const system = messages.find(m => m.role === "system")?.content ?? "";
+    const question = [...messages].reverse().find(m => m.role === "user")?.content ?? "";
+    const answer = /^A: (.*)$/m.exec(system)?.[1];
+
+    return send(res, 200, {
+      model: body.model,
+      created_at: new Date().toISOString(),
+      message: {
+        role: "assistant",
+        content: answer ? `(mock) ${answer}` : `(mock) I don't know how to answer "${question}" yet.`,
+      },
+      done: true,
+    });
+  }
+
+  send(res, 404, { error: "not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`mock ollama listening on http://localhost:${PORT}`);
+});
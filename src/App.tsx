@@ -1,5 +1,150 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type {
+  AuthSession,
+  BackendTarget,
+  BotMeta,
+  ColumnMap,
+  CoverageRow,
+  DeployedBaseline,
+  DeployStatus,
+  DiffPart,
+  DocumentFormat,
+  Draft,
+  DraftSummary,
+  DupCluster,
+  EvalCase,
+  EvalChange,
+  EvalResult,
+  EvalSuite,
+  ExportFormat,
+  ExportPayload,
+  Finding,
+  History,
+  ImportMode,
+  ImportResult,
+  MdInline,
+  MergeChoice,
+  ModelInfo,
+  ModelKind,
+  OutboxItem,
+  PairChanges,
+  QAPair,
+  RangedSetting,
+  RefDocument,
+  ScanField,
+  SchemaIssue,
+  SearchHit,
+  Snapshot,
+  Submission,
+  TagRules,
+  TextRange,
+} from "./core";
+import {
+  afterFailedAttempt,
+  applyImport,
+  backendUrls,
+  bearerHeaders,
+  behaviorPrompt,
+  botSlug,
+  buildBm25Index,
+  buildPayload,
+  buildUpdateRequest,
+  canonicalTag,
+  chatEndpoint,
+  checkLinks,
+  chunkingIssue,
+  coerceStr,
+  compareRuns,
+  contactIssue,
+  countChanges,
+  DEFAULT_TAG_RULES,
+  detectImporters,
+  diffPairs,
+  DOCUMENT_EXTENSIONS,
+  documentChunks,
+  draftDisplayName,
+  draftFromSaved,
+  dropPairs,
+  duplicatePairs,
+  EMPTY_EVAL_SUITE,
+  EMPTY_HISTORY,
+  emptyDraft,
+  emptyMeta,
+  expedite,
+  EXPORT_FORMATS,
+  FALLBACK_MODELS,
+  fetchSubmissionStatus,
+  filterPairs,
+  findDuplicateClusters,
+  formatIssue,
+  guessColumnMap,
+  idempotencyKey,
+  IMPORTERS,
+  inRange,
+  isDue,
+  isEmptyUpdate,
+  isFilledPair,
+  isPending,
+  isRetryableError,
+  languageName,
+  LANGUAGES,
+  linkTranslations,
+  lookalikeTags,
+  mergeCluster,
+  movePairsAmong,
+  movePairsTo,
+  newDocument,
+  normalizeAllTags,
+  normalizeTag,
+  pairEditLabel,
+  parseAnyQAPairs,
+  parseCsv,
+  parseDeployedBot,
+  parseInline,
+  parseMarkdownBlocks,
+  parseModelCatalog,
+  parseTargetsEnv,
+  planMerge,
+  queueSubmission,
+  recordHistory,
+  redoHistory,
+  removePairs,
+  renameTags,
+  requestSignInCode,
+  retagPairs,
+  rowWhere,
+  runEvalCase,
+  safeHref,
+  sameBot,
+  sameDocuments,
+  scanDraft,
+  searchBm25,
+  searchTerms,
+  serializePayload,
+  SESSION_SKEW_MS,
+  sessionExpired,
+  SETTING_RANGES,
+  submissionFromResponse,
+  submitPayload,
+  tagFacets,
+  termRanges,
+  toJUnitXml,
+  toPayloadDocument,
+  toPayloadPair,
+  translationCoverage,
+  uid,
+  undoHistory,
+  uniqueDraftName,
+  uniqueTags,
+  uniqueVariants,
+  unlinkTranslation,
+  UNTAGGED,
+  validateMeta,
+  validatePayload,
+  verifySignInCode,
+  wordDiff,
+} from "./core";
 
 /**
  * UMass Lab Chatbot Builder (Single-file React app)
@@ -7,340 +152,2256 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
  * Front-end for professors/labs to enter Q&A pairs and submit a chatbot request.
  *
  * Tech: React + TailwindCSS (single file for easy drop-in into Vite/Next.js).
+ * Parsing, payload mapping, validation and export formats live in ./core, which
+ * the command-line tool (cli/chatbot.mjs) uses as well.
  */
 
 // ---------- Backend config (Option A: direct to service port) ----------
-const BACKEND_BASE = "http://128.119.128.176:8081";
-const SUBMIT_URL   = `${BACKEND_BASE}/chatbots`;
-const HEALTH_URL   = `${BACKEND_BASE}/health`;
-// ---------- Types ----------
+// Build-time defaults come from VITE_BACKEND_BASE / VITE_BACKEND_TARGETS (see .env.example).
+// The Backend settings panel adds runtime targets and remembers the active one.
+const BACKEND_BASE = import.meta.env.VITE_BACKEND_BASE || "http://128.119.128.176:8081";
+const LOCAL_BACKEND_BASE = "http://localhost:8081"; // npm run mock:backend
+// Where regression tests reach deployed bots ({base}/chat/{slug}); unset = the active backend
+const CHAT_BASE = import.meta.env.VITE_CHAT_BASE || "";
+const BACKEND_STORAGE_KEY = "umass-chatbot-builder:backend";
+// Owner sign-in (email one-time codes); its token goes to every backend call.
+// Only dev builds fall back to the mock issuer; elsewhere "" means sign-in is not configured.
+const LOCAL_AUTH_ISSUER = "http://localhost:8090"; // npm run mock:issuer
+const AUTH_ISSUER = (import.meta.env.VITE_AUTH_ISSUER || (import.meta.env.DEV ? LOCAL_AUTH_ISSUER : "")).replace(/\/+$/, "");
+
+const BUILTIN_TARGETS: BackendTarget[] = (() => {
+  const targets = [{ id: "prod", name: "prod", base: BACKEND_BASE, builtin: true }, ...parseTargetsEnv(import.meta.env.VITE_BACKEND_TARGETS)];
+  if (!targets.some(t => t.id === "local")) targets.push({ id: "local", name: "local", base: LOCAL_BACKEND_BASE, builtin: true });
+  return targets.filter((t, i) => targets.findIndex(u => u.id === t.id) === i);
+})();
+
+function loadBackendSettings(): { custom: BackendTarget[]; activeId: string } {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BACKEND_STORAGE_KEY) || "{}");
+    return {
+      custom: Array.isArray(saved.custom) ? saved.custom : [],
+      activeId: typeof saved.activeId === "string" ? saved.activeId : "prod",
+    };
+  } catch {
+    return { custom: [], activeId: "prod" };
+  }
+}
 
+// ---------- Utils ----------
 
-type QAPair = {
-  id: string;
-  q: string;
-  a: string;
-  tags?: string[];
-};
+function classNames(...c: Array<string | false | null | undefined>) {
+  return c.filter(Boolean).join(" ");
+}
+
+// ---------- Submission tracking ----------
 
-type BotMeta = {
-  lab: string;
-  botName: string;
-  ownerEmail: string;
-  description?: string;
-  baseModel: string; // e.g., "qwen2.5:7b-instruct"
-  embedModel: string; // e.g., "nomic-embed-text"
-  temperature: number;
-  topP: number;
+const SUBMISSIONS_STORAGE_KEY = "umass-chatbot-builder:submissions";
+const SUBMISSION_POLL_MS = 15_000;
+
+function loadSubmissions(): Submission[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SUBMISSIONS_STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+// ---------- Outbox ----------
+
+const OUTBOX_STORAGE_KEY = "umass-chatbot-builder:outbox";
+const HEALTH_POLL_MS = 30_000;
+
+type BackendHealth = {
+  ok: boolean | null; // null until the first check for the current target returns
+  latencyMs?: number;
+  checkedAt?: string;
+  error?: string;
 };
 
-type ExportPayload = {
-  bot: {
-    name: string;
-    lab: string;
-    owner_email: string;
-    description?: string;
-    slug: string;
-    model: string;
-    embed_model: string;
-    temperature: number;
-    top_p: number;
+function loadOutbox(): OutboxItem[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+// ---------- Owner sign-in ----------
+
+const SESSION_STORAGE_KEY = "umass-chatbot-builder:session";
+
+// An expired session is kept (not dropped) so the app can say whose sign-in lapsed.
+type Session = AuthSession & { expired?: boolean };
+
+function loadSession(): Session | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) || "null");
+    if (typeof saved?.token !== "string" || typeof saved?.email !== "string" || typeof saved?.expiresAt !== "string") return null;
+    return sessionExpired(saved) ? { ...saved, expired: true } : saved;
+  } catch {
+    return null;
+  }
+}
+
+// ---------- Drafts (IndexedDB workspaces) ----------
+
+const DRAFTS_DB = "umass-chatbot-builder";
+const DRAFTS_STORE = "drafts";
+const ACTIVE_DRAFT_KEY = "umass-chatbot-builder:active-draft";
+// Pre-workspace builds kept the whole draft under this localStorage key
+const LEGACY_DRAFT_KEY = "umass-chatbot-builder";
+
+function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+let draftsDb: Promise<IDBDatabase> | null = null;
+
+function openDraftsDb(): Promise<IDBDatabase> {
+  if (!draftsDb) {
+    draftsDb = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") return reject(new Error("IndexedDB is not available in this browser"));
+      const req = indexedDB.open(DRAFTS_DB, 1);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(DRAFTS_STORE)) req.result.createObjectStore(DRAFTS_STORE, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    draftsDb.catch(() => { draftsDb = null; });
+  }
+  return draftsDb;
+}
+
+async function draftsStore(mode: IDBTransactionMode) {
+  const db = await openDraftsDb();
+  return db.transaction(DRAFTS_STORE, mode).objectStore(DRAFTS_STORE);
+}
+
+async function getDraft(id: string): Promise<Draft | undefined> {
+  const found = await idbRequest((await draftsStore("readonly")).get(id));
+  return found ? draftFromSaved(found, "Untitled draft") : undefined;
+}
+
+async function putDraft(draft: Draft) {
+  await idbRequest((await draftsStore("readwrite")).put(draft));
+}
+
+async function deleteDraft(id: string) {
+  await idbRequest((await draftsStore("readwrite")).delete(id));
+}
+
+async function listDrafts(): Promise<DraftSummary[]> {
+  const all: Draft[] = await idbRequest((await draftsStore("readonly")).getAll());
+  return all
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((x, y) => x.name.localeCompare(y.name));
+}
+
+let draftsInit: Promise<DraftSummary[]> | null = null;
+
+/**
+ * Lists stored drafts, first moving the legacy localStorage draft into IndexedDB
+ * (or creating an empty draft) so there is always at least one. Shared by
+ * concurrent callers so StrictMode's double mount cannot migrate twice.
+ */
+function initDrafts(): Promise<DraftSummary[]> {
+  if (!draftsInit) {
+    draftsInit = migrateDrafts();
+    draftsInit.catch(() => { draftsInit = null; });
+  }
+  return draftsInit;
+}
+
+async function migrateDrafts(): Promise<DraftSummary[]> {
+  const existing = await listDrafts();
+  if (existing.length) return existing;
+  let first = emptyDraft("My first bot");
+  const legacy = localStorage.getItem(LEGACY_DRAFT_KEY);
+  if (legacy) {
+    try {
+      const parsed = JSON.parse(legacy);
+      first = draftFromSaved(parsed, draftDisplayName({ ...emptyMeta(), ...parsed?.meta }, "Imported draft"));
+    } catch {
+      // unreadable legacy data: start fresh
+    }
+  }
+  await putDraft(first);
+  localStorage.removeItem(LEGACY_DRAFT_KEY);
+  localStorage.setItem(ACTIVE_DRAFT_KEY, first.id);
+  return listDrafts();
+}
+
+// ---------- Undo / redo ----------
+
+// Fields outside the meta and pair editors (search, import text, test cases…) are not in
+// the history, so Ctrl/Cmd+Z there is left to the browser's own text undo.
+function historyTracks(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return true;
+  const editable = target.isContentEditable || target.matches("input, textarea, select");
+  return !editable || Boolean(target.closest("[data-pair-card], [data-undo-history]"));
+}
+
+// ---------- Export formats ----------
+
+function downloadText(filename: string, text: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// ---------- Playground (model call) ----------
+
+const OLLAMA_BASE = "http://localhost:11434";
+
+/**
+ * Sends the question plus the retrieved pairs as context to an Ollama-compatible
+ * /api/chat endpoint (non-streaming) and returns the assistant's reply.
+ * `npm run mock:ollama` serves a stand-in on the default port.
+ */
+async function askOllama(base: string, meta: BotMeta, question: string, hits: SearchHit[]): Promise<string> {
+  const context = hits.map((h, i) => `[${i + 1}] Q: ${h.pair.q.trim()}\nA: ${h.pair.a.trim()}`).join("\n\n");
+  const res = await fetch(`${base.replace(/\/+$/, "")}/api/chat`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: meta.baseModel,
+      stream: false,
+      options: { temperature: meta.temperature, top_p: meta.topP },
+      messages: [
+        {
+          role: "system",
+          content: [
+            `You are ${meta.botName || "a lab assistant"}. Answer using only the Q&A context below.`,
+            ...behaviorPrompt(meta),
+            "",
+            context || "(no matching pairs)",
+          ].join("\n"),
+        },
+        { role: "user", content: question },
+      ],
+    }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`HTTP ${res.status}${text ? ` — ${text.slice(0, 200)}` : ""}`);
+  }
+  const data = await res.json();
+  return coerceStr(data?.message?.content);
+}
+
+// ---------- Mini UI primitives (Tailwind) ----------
+
+function Card({ children, className = "" }: React.PropsWithChildren<{ className?: string }>) {
+  return (
+    <div className={classNames("rounded-2xl shadow-sm border border-gray-200 bg-white/60 backdrop-blur p-5", className)}>
+      {children}
+    </div>
+  );
+}
+
+function SectionHeading({ title, subtitle }: { title: string; subtitle?: string }) {
+  return (
+    <div className="mb-4">
+      <h2 className="text-xl font-semibold tracking-tight">{title}</h2>
+      {subtitle ? <p className="text-sm text-gray-500">{subtitle}</p> : null}
+    </div>
+  );
+}
+
+function Label({ htmlFor, children }: { htmlFor?: string; children: React.ReactNode }) {
+  return (
+    <label htmlFor={htmlFor} className="text-sm font-medium text-gray-700">
+      {children}
+    </label>
+  );
+}
+
+function Input(props: React.InputHTMLAttributes<HTMLInputElement>) {
+  return (
+    <input
+      {...props}
+      className={classNames(
+        "w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm",
+        "outline-none ring-0 focus:border-indigo-500",
+        (props.className as string) || ""
+      )}
+    />
+  );
+}
+
+// Forward ref so we can focus() it in the Import dialog
+const Textarea = React.forwardRef<HTMLTextAreaElement, React.TextareaHTMLAttributes<HTMLTextAreaElement>>(
+  (props, ref) => (
+    <textarea
+      ref={ref}
+      {...props}
+      className={classNames(
+        "w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm",
+        "outline-none ring-0 focus:border-indigo-500 min-h-[100px]",
+        (props.className as string) || ""
+      )}
+    />
+  )
+);
+Textarea.displayName = "Textarea";
+
+function Button(
+  { variant = "default", className = "", ...props }:
+  React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: "default" | "secondary" | "danger" | "ghost" }
+) {
+  const base =
+    "inline-flex items-center justify-center gap-2 rounded-xl px-3.5 py-2.5 text-sm font-medium transition";
+  const variants: Record<string, string> = {
+    default: "bg-indigo-600 text-white hover:bg-indigo-500",
+    secondary: "bg-gray-100 text-gray-900 hover:bg-gray-200",
+    danger: "bg-rose-600 text-white hover:bg-rose-500",
+    ghost: "bg-transparent text-gray-700 hover:bg-gray-100",
   };
-  pairs: Array<{ q: string; a: string; tags?: string[] }>;
-  created_at: string;
-  version: string;
-};
+  return <button {...props} className={classNames(base, variants[variant], className)} />;
+}
 
-// ---------- Utils ----------
+function Tiny({ children }: { children: React.ReactNode }) {
+  return <span className="text-[11px] text-gray-500">{children}</span>;
+}
+
+// ---------- Playground panel ----------
+
+function Playground({ pairs, meta }: { pairs: QAPair[]; meta: BotMeta }) {
+  const [question, setQuestion] = useState("");
+  const [topK, setTopK] = useState(5);
+  const [useModel, setUseModel] = useState(false);
+  const [ollamaBase, setOllamaBase] = useState(OLLAMA_BASE);
+  const [reply, setReply] = useState<{ state: "idle" | "loading" | "done" | "error"; text: string }>({ state: "idle", text: "" });
+
+  const index = useMemo(() => buildBm25Index(pairs), [pairs]);
+  const hits = useMemo(() => searchBm25(index, pairs, question, topK), [index, pairs, question, topK]);
 
-function uid() {
-  return Math.random().toString(36).slice(2, 10);
+  async function handleAsk() {
+    setReply({ state: "loading", text: "" });
+    try {
+      const text = await askOllama(ollamaBase, meta, question, hits);
+      setReply({ state: "done", text: text || "(empty reply)" });
+    } catch (e: any) {
+      setReply({ state: "error", text: `Model call failed. ${e?.message || e}` });
+    }
+  }
+
+  return (
+    <Card>
+      <SectionHeading title="Try it" subtitle="Type a student question to see which pairs it would hit." />
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="e.g., When are office hours?"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter" && useModel && question.trim()) handleAsk(); }}
+          />
+          <select
+            className="rounded-xl border border-gray-300 bg-white px-2 py-2 text-sm"
+            value={topK}
+            onChange={(e) => setTopK(Number(e.target.value))}
+            title="Number of pairs to show"
+          >
+            {[3, 5, 10].map(k => <option key={k} value={k}>top {k}</option>)}
+          </select>
+        </div>
+
+        {question.trim() && (
+          hits.length ? (
+            <ol className="space-y-2">
+              {hits.map(h => (
+                <li key={h.pair.id} className="rounded-xl border border-gray-200 p-3">
+                  <div className="mb-1 flex items-center justify-between">
+                    <span className="text-xs font-medium text-gray-500">#{h.pairIndex + 1}</span>
+                    <Tiny>score {h.score.toFixed(2)}</Tiny>
+                  </div>
+                  <div className="text-sm font-medium">{h.pair.q}</div>
+                  <div className="line-clamp-3 text-sm text-gray-600">{h.pair.a}</div>
+                  {h.pair.tags && h.pair.tags.length > 0 && <Tiny>{h.pair.tags.join(", ")}</Tiny>}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="text-sm text-gray-500">
+              No pair matches this question.
+              {meta.fallbackMessage?.trim() && <> The bot would reply: “{meta.fallbackMessage.trim()}”</>}
+            </div>
+          )
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={useModel} onChange={(e) => setUseModel(e.target.checked)} />
+          Also ask the model (Ollama <code>/api/chat</code>)
+        </label>
+        {useModel && (
+          <div className="space-y-2">
+            <div>
+              <Label htmlFor="ollamaBase">Ollama URL</Label>
+              <Input id="ollamaBase" value={ollamaBase} onChange={(e) => setOllamaBase(e.target.value)} />
+            </div>
+            <Button variant="secondary" onClick={handleAsk} disabled={!question.trim() || reply.state === "loading"}>
+              {reply.state === "loading" ? "Asking…" : `Ask ${meta.baseModel}`}
+            </Button>
+            {(reply.state === "done" || reply.state === "error") && (
+              <div
+                className={classNames(
+                  "whitespace-pre-wrap rounded-xl border px-3 py-2 text-sm",
+                  reply.state === "done" ? "border-gray-200 bg-white" : "border-rose-200 bg-rose-50 text-rose-700"
+                )}
+              >
+                {reply.text}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
 }
 
-function slugify(s: string) {
-  return s
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, "")
-    .trim()
-    .replace(/\s+/g, "-")
-    .replace(/-+/g, "-");
+// ---------- Regression tests ----------
+
+const EVAL_STATUS_STYLES = {
+  pass: "bg-green-100 text-green-700",
+  fail: "bg-rose-100 text-rose-700",
+  error: "bg-amber-100 text-amber-700",
+};
+
+const EVAL_CHANGE_STYLES: Record<EvalChange, string> = {
+  new: "text-gray-500",
+  fixed: "text-green-700",
+  regressed: "text-rose-700 font-medium",
+  unchanged: "text-gray-400",
+};
+
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <p className="whitespace-pre-wrap break-words text-xs text-gray-700">
+      {parts.map((p, i) =>
+        p.kind === "same" ? <span key={i}>{p.text}</span>
+        : p.kind === "added" ? <ins key={i} className="bg-green-100 no-underline">{p.text}</ins>
+        : <del key={i} className="bg-rose-100 text-rose-700">{p.text}</del>
+      )}
+    </p>
+  );
 }
 
-function classNames(...c: Array<string | false | null | undefined>) {
-  return c.filter(Boolean).join(" ");
+function EvalResultItem({ result, change, before }: { result: EvalResult; change: EvalChange; before?: EvalResult }) {
+  const status = result.error ? "error" : result.passed ? "pass" : "fail";
+  const answerChanged = before && before.answer !== result.answer;
+  return (
+    <li className="rounded-xl border border-gray-200 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <span className={classNames("shrink-0 rounded px-2 py-0.5 text-xs", EVAL_STATUS_STYLES[status])}>{status}</span>
+          <span className="truncate font-medium">{result.question}</span>
+        </div>
+        <span className="shrink-0 text-xs">
+          <span className={EVAL_CHANGE_STYLES[change]}>{change}</span>
+          <span className="text-gray-500"> · {result.latencyMs} ms{before ? ` (was ${before.latencyMs})` : ""}</span>
+        </span>
+      </div>
+      {result.error && <div className="mt-2 text-xs text-amber-700">{result.error}</div>}
+      {result.failures.length > 0 && (
+        <ul className="mt-2 list-disc pl-5 text-xs text-rose-700">
+          {result.failures.map((f, i) => <li key={i}>{f}</li>)}
+        </ul>
+      )}
+      {result.answer && <p className="mt-2 line-clamp-4 whitespace-pre-wrap text-gray-600">{result.answer}</p>}
+      {answerChanged && (
+        <details className="mt-2">
+          <summary className="cursor-pointer text-xs text-gray-500">Answer changed since the previous run</summary>
+          <div className="mt-1 rounded-lg border border-gray-100 bg-gray-50 p-2">
+            <DiffText parts={wordDiff(before.answer, result.answer)} />
+          </div>
+        </details>
+      )}
+    </li>
+  );
 }
 
-// Simple metadata validator used by UI and tests
-function validateMeta(meta: BotMeta) {
+function EvalCaseEditor({ index, c, pairs, onChange, onRemove }: {
+  index: number;
+  c: EvalCase;
+  pairs: QAPair[];
+  onChange: (patch: Partial<EvalCase>) => void;
+  onRemove: () => void;
+}) {
+  const choices = pairs.filter(isFilledPair);
+  const missingPair = c.pairId && !choices.some(p => p.id === c.pairId);
   return (
-    meta.lab.trim().length > 0 &&
-    meta.botName.trim().length > 0 &&
-    /.+@.+\..+/.test(meta.ownerEmail)
+    <div className="space-y-2 rounded-xl border border-gray-200 p-3">
+      <div className="flex items-center gap-2">
+        <Tiny>#{index + 1}</Tiny>
+        <Input
+          aria-label={`Test ${index + 1} question`}
+          placeholder="Question to ask, e.g. When are office hours?"
+          value={c.question}
+          onChange={(e) => onChange({ question: e.target.value })}
+        />
+        <Button variant="ghost" className="px-2 py-1" onClick={onRemove}>Remove</Button>
+      </div>
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+        <div>
+          <Label htmlFor={`eval-keywords-${c.id}`}>Expected keywords</Label>
+          <Input
+            id={`eval-keywords-${c.id}`}
+            placeholder="comma-separated"
+            value={c.keywords.join(",")}
+            onChange={(e) => onChange({ keywords: e.target.value.split(",") })}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`eval-pair-${c.id}`}>Answered from pair</Label>
+          <select
+            id={`eval-pair-${c.id}`}
+            className="w-full rounded-xl border border-gray-300 bg-white px-2 py-2 text-sm"
+            value={c.pairId ?? ""}
+            onChange={(e) => onChange({ pairId: e.target.value || undefined })}
+          >
+            <option value="">Any pair</option>
+            {missingPair && <option value={c.pairId}>(deleted pair)</option>}
+            {choices.map(p => (
+              <option key={p.id} value={p.id}>#{pairs.indexOf(p) + 1} {p.q.trim().slice(0, 60) || "(no question)"}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor={`eval-forbidden-${c.id}`}>Forbidden phrases</Label>
+          <Input
+            id={`eval-forbidden-${c.id}`}
+            placeholder="comma-separated"
+            value={c.forbidden.join(",")}
+            onChange={(e) => onChange({ forbidden: e.target.value.split(",") })}
+          />
+        </div>
+      </div>
+    </div>
   );
 }
 
-// ---------- Flexible JSON Import ----------
+function EvalPanel({ suite, pairs, defaultEndpoint, name, draftId, fetchImpl, onChange }: {
+  suite: EvalSuite;
+  pairs: QAPair[];
+  defaultEndpoint: string;
+  name: string;
+  draftId: string | null;
+  // Sends the owner's token, like every other backend call
+  fetchImpl: typeof fetch;
+  onChange: (update: (suite: EvalSuite) => EvalSuite) => void;
+}) {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [stopped, setStopped] = useState(false);
+  // Results belong to the draft the run started in; switching drafts abandons the run
+  const draftRef = useRef(draftId);
+  useEffect(() => {
+    draftRef.current = draftId;
+  }, [draftId]);
+  const endpoint = suite.endpoint.trim() || defaultEndpoint;
+  const runnable = suite.cases.filter(c => c.question.trim());
+  const run = suite.lastRun;
+  const comparison = useMemo(() => (run ? compareRuns(suite.previousRun, run) : null), [run, suite.previousRun]);
+  const changes = comparison ? Array.from(comparison.values()) : [];
+
+  function updateCase(id: string, patch: Partial<EvalCase>) {
+    onChange(s => ({ ...s, cases: s.cases.map(c => (c.id === id ? { ...c, ...patch } : c)) }));
+  }
 
+  // Cases run one at a time so latencies are comparable between runs
+  async function handleRun() {
+    if (progress) return;
+    const startedIn = draftRef.current;
+    const results: EvalResult[] = [];
+    setStopped(false);
+    setProgress({ done: 0, total: runnable.length });
+    for (const c of runnable) {
+      const expected = c.pairId ? pairs.find(p => p.id === c.pairId)?.q : undefined;
+      const result = await runEvalCase(c, endpoint, expected, fetchImpl);
+      if (draftRef.current !== startedIn) break;
+      results.push(result);
+      setProgress({ done: results.length, total: runnable.length });
+    }
+    if (draftRef.current === startedIn) {
+      onChange(s => ({ ...s, previousRun: s.lastRun, lastRun: { at: new Date().toISOString(), endpoint, results } }));
+    } else {
+      setStopped(true);
+    }
+    setProgress(null);
+  }
 
+  return (
+    <Card>
+      <SectionHeading
+        title="Regression tests"
+        subtitle="Questions the deployed bot must keep answering well. Run them after every update to catch answers that broke."
+      />
+      <div className="space-y-3">
+        <div>
+          <Label htmlFor="eval-endpoint">Chat endpoint</Label>
+          <Input
+            id="eval-endpoint"
+            placeholder={defaultEndpoint}
+            value={suite.endpoint}
+            onChange={(e) => onChange(s => ({ ...s, endpoint: e.target.value }))}
+          />
+          <Tiny>Leave blank for the active backend; <code>npm run mock:backend</code> answers for bots submitted to it.</Tiny>
+        </div>
 
-function coerceStr(x: any): string {
-  return (typeof x === "string" ? x : String(x ?? "")).trim();
+        {suite.cases.map((c, i) => (
+          <EvalCaseEditor
+            key={c.id}
+            index={i}
+            c={c}
+            pairs={pairs}
+            onChange={(patch) => updateCase(c.id, patch)}
+            onRemove={() => onChange(s => ({ ...s, cases: s.cases.filter(x => x.id !== c.id) }))}
+          />
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => onChange(s => ({ ...s, cases: [...s.cases, { id: uid(), question: "", keywords: [], forbidden: [] }] }))}
+          >
+            + Add test
+          </Button>
+          <Button onClick={handleRun} disabled={!runnable.length || progress !== null}>
+            {progress ? `Running ${progress.done}/${progress.total}…` : `Run ${runnable.length} test${runnable.length === 1 ? "" : "s"}`}
+          </Button>
+          {run && (
+            <Button variant="ghost" onClick={() => downloadText(`${name}-tests.xml`, toJUnitXml(run, name), "application/xml")}>
+              Export JUnit XML
+            </Button>
+          )}
+        </div>
+        {stopped && <Tiny>The last run stopped when you switched drafts; its results were discarded.</Tiny>}
+
+        {run && comparison && (
+          <div className="space-y-2">
+            <div className="text-sm text-gray-700">
+              <span className="font-medium text-green-700">{run.results.filter(r => r.passed).length} passed</span>
+              {" · "}
+              <span className="font-medium text-rose-700">{run.results.filter(r => !r.passed).length} failed</span>
+              {suite.previousRun && (
+                <span className="text-gray-500">
+                  {" · "}vs previous run: {changes.filter(x => x.change === "fixed").length} fixed, {changes.filter(x => x.change === "regressed").length} regressed
+                </span>
+              )}
+              <Tiny> · {formatTime(run.at)} · {run.endpoint}</Tiny>
+            </div>
+            <ul className="space-y-2">
+              {run.results.map(r => {
+                const { change, before } = comparison.get(r.caseId) ?? { change: "new" as const };
+                return <EvalResultItem key={r.caseId} result={r} change={change} before={before} />;
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
 }
 
-function extractQAFromObject(obj: any): { q: string; a: string; tags?: string[] } | null {
-  if (!obj || typeof obj !== "object") return null;
+// ---------- Reference documents ----------
 
-  const qKey = ["q", "question", "prompt", "ask", "query", "Q"].find(k => k in obj);
-  const aKey = ["a", "answer", "response", "text", "A"].find(k => k in obj);
-  if (!qKey || !aKey) return null;
+const DOCUMENT_MAX_BYTES = 2_000_000;
+const CHUNK_PREVIEW_LIMIT = 50;
 
-  const q = coerceStr(obj[qKey]);
-  const a = coerceStr(obj[aKey]);
-  if (!q || !a) return null;
+const DOCUMENT_FORMAT_LABELS: Record<DocumentFormat, string> = {
+  markdown: "Markdown",
+  text: "Plain text",
+  html: "HTML, converted to text",
+};
+
+function DocumentCard({ doc, onChange, onRemove }: {
+  doc: RefDocument;
+  onChange: (patch: Partial<RefDocument>) => void;
+  onRemove: () => void;
+}) {
+  const issue = chunkingIssue(doc);
+  const chunks = useMemo(() => documentChunks(doc), [doc]);
+  return (
+    <div className="rounded-xl border border-gray-200 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="truncate text-sm font-medium">{doc.name}</div>
+          <Tiny>
+            {DOCUMENT_FORMAT_LABELS[doc.format]} · {doc.text.length.toLocaleString()} characters · {chunks.length} chunk{chunks.length === 1 ? "" : "s"}
+          </Tiny>
+        </div>
+        <Button variant="ghost" className="px-2 py-1" onClick={onRemove}>Remove</Button>
+      </div>
+      <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <RangeSetting id={`chunk-size-${doc.id}`} setting="chunkSize" value={doc.chunkSize} onChange={(v) => onChange({ chunkSize: v })} />
+        <RangeSetting id={`chunk-overlap-${doc.id}`} setting="chunkOverlap" value={doc.chunkOverlap} onChange={(v) => onChange({ chunkOverlap: v })} />
+      </div>
+      {issue && <div className="mt-2 text-xs text-rose-700" role="alert">{issue}</div>}
+      {chunks.length > 0 && (
+        <details className="mt-2">
+          <summary className="cursor-pointer text-xs text-gray-500">Preview chunks</summary>
+          <ol className="mt-2 max-h-96 space-y-2 overflow-auto pr-1">
+            {chunks.slice(0, CHUNK_PREVIEW_LIMIT).map((c, i) => (
+              <li key={i} className="rounded-lg border border-gray-100 bg-gray-50 p-2">
+                <Tiny>#{i + 1} · {c.length} characters</Tiny>
+                <p className="mt-1 whitespace-pre-wrap break-words text-xs text-gray-700">{c}</p>
+              </li>
+            ))}
+          </ol>
+          {chunks.length > CHUNK_PREVIEW_LIMIT && <Tiny>…and {chunks.length - CHUNK_PREVIEW_LIMIT} more</Tiny>}
+        </details>
+      )}
+    </div>
+  );
+}
 
-  let tags: string[] | undefined;
-  if (Array.isArray((obj as any).tags)) {
-    const t = (obj as any).tags.map(coerceStr).filter(Boolean);
-    tags = t.length ? t : undefined;
+function DocumentsPanel({ documents, onAdd, onChange, onRemove }: {
+  documents: RefDocument[];
+  onAdd: (docs: RefDocument[]) => void;
+  onChange: (id: string, patch: Partial<RefDocument>) => void;
+  onRemove: (doc: RefDocument) => void;
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [skipped, setSkipped] = useState<string[]>([]);
+
+  async function handleFiles(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    const added: RefDocument[] = [];
+    const problems: string[] = [];
+    for (const file of files) {
+      if (file.size > DOCUMENT_MAX_BYTES) {
+        problems.push(`${file.name}: larger than ${DOCUMENT_MAX_BYTES / 1_000_000} MB`);
+        continue;
+      }
+      const doc = newDocument(file.name, await file.text());
+      if (doc.text) added.push(doc);
+      else problems.push(`${file.name}: no text left after cleaning`);
+    }
+    setSkipped(problems);
+    if (added.length) onAdd(added);
   }
-  return { q, a, tags };
 
+  return (
+    <Card>
+      <SectionHeading
+        title="Reference documents"
+        subtitle="Syllabi, SOPs and manuals the bot retrieves from directly. Files are cleaned and split into overlapping chunks in your browser."
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="secondary" onClick={() => fileRef.current?.click()}>Add documents</Button>
+        <Tiny>Markdown, plain text or HTML, up to {DOCUMENT_MAX_BYTES / 1_000_000} MB each</Tiny>
+        <input
+          ref={fileRef}
+          type="file"
+          multiple
+          accept={[...DOCUMENT_EXTENSIONS.map(ext => `.${ext}`), "text/markdown", "text/plain", "text/html"].join(",")}
+          onChange={handleFiles}
+          className="hidden"
+        />
+      </div>
+      {skipped.length > 0 && (
+        <ul className="mt-3 space-y-0.5 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          {skipped.map((s, i) => <li key={i}>Skipped {s}</li>)}
+        </ul>
+      )}
+      {documents.length > 0 && (
+        <div className="mt-4 space-y-3">
+          {documents.map(d => (
+            <DocumentCard key={d.id} doc={d} onChange={(patch) => onChange(d.id, patch)} onRemove={() => onRemove(d)} />
+          ))}
+        </div>
+      )}
+    </Card>
+  );
 }
 
-function extractQAFromArray(arr: any[]): { q: string; a: string; tags?: string[] } | null {
-  if (!Array.isArray(arr)) return null;
-  if (arr.length < 2) return null;
-  const q = coerceStr(arr[0]);
-  const a = coerceStr(arr[1]);
-  if (!q || !a) return null;
-  // optional 3rd item can be tags array or comma string
-  let tags: string[] | undefined;
-  if (arr.length >= 3) {
-    const raw = Array.isArray(arr[2]) ? arr[2] : String(arr[2] ?? "").split(",");
-    const t = raw.map(coerceStr).filter(Boolean);
-    tags = t.length ? t : undefined;
+// ---------- Import preview ----------
+
+function ImportPreview({ result, existing, onBack, onCommit }: {
+  result: ImportResult & { format: string };
+  existing: QAPair[];
+  onBack: () => void;
+  onCommit: (pairs: QAPair[], metaPatch?: Partial<BotMeta>, documents?: RefDocument[]) => void;
+}) {
+  const [mode, setMode] = useState<ImportMode>("replace");
+  const [choices, setChoices] = useState<Record<number, MergeChoice>>({});
+  const [applyMeta, setApplyMeta] = useState(true);
+  const [applyDocuments, setApplyDocuments] = useState(true);
+  const documentCount = result.documents?.length ?? 0;
+
+  const plan = useMemo(() => planMerge(existing, result.pairs), [existing, result.pairs]);
+  const rejected = result.rejected ?? [];
+  const conflicts = plan.filter(p => p.status === "conflict").length;
+  const unchanged = plan.filter(p => p.status === "same").length;
+
+  const modes: Array<{ id: ImportMode; label: string }> = [
+    { id: "replace", label: "Replace all pairs" },
+    { id: "append", label: "Append to current pairs" },
+    { id: "merge", label: "Merge by question" },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-gray-700">
+        <span className="font-medium text-green-700">{result.pairs.length} accepted</span>
+        {" · "}
+        <span className={classNames("font-medium", rejected.length ? "text-rose-700" : "text-gray-500")}>{rejected.length} rejected</span>
+        {" · "}
+        <span className="text-gray-500">{IMPORTERS.find(i => i.id === result.format)?.label ?? result.format}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {modes.map(m => (
+          <label key={m.id} className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="radio" name="import-mode" checked={mode === m.id} onChange={() => setMode(m.id)} />
+            {m.label}
+          </label>
+        ))}
+      </div>
+      {mode === "merge" && (
+        <Tiny>
+          {plan.length - conflicts - unchanged} new · {unchanged} unchanged (skipped) · {conflicts} conflict{conflicts === 1 ? "" : "s"} to resolve
+        </Tiny>
+      )}
+      {result.notices && result.notices.length > 0 && (
+        <ul className="space-y-0.5 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          {result.notices.map((n, i) => <li key={i}>{n}</li>)}
+        </ul>
+      )}
+      {result.metaPatch && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={applyMeta} onChange={(e) => setApplyMeta(e.target.checked)} />
+          Also apply bot details from the file (lab, name, owner, model and behavior settings)
+        </label>
+      )}
+      {documentCount > 0 && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={applyDocuments} onChange={(e) => setApplyDocuments(e.target.checked)} />
+          Also restore {documentCount} reference document{documentCount === 1 ? "" : "s"} (replaces the current ones)
+        </label>
+      )}
+
+      <div className="max-h-[45vh] space-y-2 overflow-auto pr-1">
+        {result.pairs.map((row, i) => {
+          const { status, match } = plan[i];
+          return (
+            <div
+              key={i}
+              className={classNames(
+                "rounded-xl border p-3 text-sm",
+                mode === "merge" && status === "conflict" ? "border-amber-300 bg-amber-50" : "border-gray-200",
+                mode === "merge" && status === "same" && "opacity-60"
+              )}
+            >
+              <div className="mb-1 flex items-center justify-between gap-2">
+                <Tiny>{rowWhere(row)}</Tiny>
+                {mode === "merge" && <Tiny>{status === "new" ? "new" : status === "same" ? "unchanged" : "conflict"}</Tiny>}
+              </div>
+              <div className="font-medium">{row.q}</div>
+              <div className="line-clamp-2 text-gray-600">{row.a}</div>
+              {row.tags && <Tiny>{row.tags.join(", ")}</Tiny>}
+              {mode === "merge" && status === "conflict" && match && (
+                <div className="mt-2 space-y-1 border-t border-amber-200 pt-2">
+                  <div className="line-clamp-2 text-gray-600"><span className="font-medium">Current:</span> {match.a}</div>
+                  <select
+                    className="rounded-xl border border-gray-300 bg-white px-2 py-1 text-sm"
+                    value={choices[i] ?? "imported"}
+                    onChange={(e) => setChoices(c => ({ ...c, [i]: e.target.value as MergeChoice }))}
+                  >
+                    <option value="imported">Use imported answer</option>
+                    <option value="current">Keep current answer</option>
+                    <option value="both">Keep both as separate pairs</option>
+                  </select>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {rejected.length > 0 && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 p-3">
+            <div className="mb-2 text-sm font-medium text-rose-700">Rejected rows</div>
+            <ul className="space-y-1 text-xs text-rose-700">
+              {rejected.map((r, i) => (
+                <li key={i}>
+                  <span className="font-medium">{rowWhere(r) || "row"}:</span> {r.reason}
+                  {r.excerpt && <span className="block truncate text-rose-500">{r.excerpt}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="ghost" onClick={onBack}>Back</Button>
+        <Button
+          onClick={() => onCommit(
+            applyImport(existing, result.pairs, mode, choices),
+            applyMeta ? result.metaPatch : undefined,
+            applyDocuments && documentCount ? result.documents : undefined
+          )}
+          disabled={!result.pairs.length}
+        >
+          Import {result.pairs.length} row{result.pairs.length === 1 ? "" : "s"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ---------- Duplicate report ----------
+
+function DuplicateReport({ pairs, separate, onMerge, onKeepSeparate }: {
+  pairs: QAPair[];
+  separate: string[][];
+  onMerge: (ids: string[], keepId: string) => void;
+  onKeepSeparate: (ids: string[]) => void;
+}) {
+  const [threshold, setThreshold] = useState(0.6);
+  const [clusters, setClusters] = useState<DupCluster[] | null>(null);
+  const [keep, setKeep] = useState<Record<string, string>>({});
+
+  // Clusters are a snapshot; drop members that have since been removed.
+  const byId = useMemo(() => new Map(pairs.map((p, i) => [p.id, { pair: p, index: i }])), [pairs]);
+  const visible = (clusters ?? [])
+    .map(c => ({ ...c, ids: c.ids.filter(id => byId.has(id)) }))
+    .filter(c => c.ids.length > 1);
+
+  function dismiss(c: DupCluster) {
+    setClusters(prev => (prev ?? []).filter(x => x.ids[0] !== c.ids[0]));
   }
-  return { q, a, tags };
 
+  return (
+    <Card>
+      <SectionHeading title="Duplicates & conflicts" subtitle="Find questions asked twice with different wording, and answers that disagree." />
+      <div className="space-y-3">
+        <div className="flex items-center gap-3">
+          <Button variant="secondary" onClick={() => setClusters(findDuplicateClusters(pairs, threshold, separate))}>
+            {clusters ? "Re-run analysis" : "Analyze"}
+          </Button>
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            Similarity ≥ {Math.round(threshold * 100)}%
+            <input type="range" min={0.4} max={0.95} step={0.05} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} />
+          </label>
+        </div>
+
+        {clusters && !visible.length && <div className="text-sm text-gray-500">No near-duplicate questions found.</div>}
+
+        {visible.map(c => {
+          const keepId = keep[c.ids[0]] && c.ids.includes(keep[c.ids[0]]) ? keep[c.ids[0]] : c.ids[0];
+          return (
+            <div key={c.ids[0]} className={classNames("rounded-xl border p-3", c.conflicting ? "border-amber-300 bg-amber-50" : "border-gray-200")}>
+              <div className="mb-2 flex items-center justify-between">
+                <Tiny>{c.ids.length} similar questions · {Math.round(c.similarity * 100)}%</Tiny>
+                {c.conflicting && <span className="rounded bg-amber-100 px-2 py-0.5 text-xs text-amber-800">answers differ</span>}
+              </div>
+              <ul className="space-y-2">
+                {c.ids.map(id => {
+                  const { pair, index } = byId.get(id)!;
+                  return (
+                    <li key={id}>
+                      <label className="flex gap-2 text-sm">
+                        <input type="radio" name={`keep-${c.ids[0]}`} checked={keepId === id} onChange={() => setKeep(k => ({ ...k, [c.ids[0]]: id }))} />
+                        <span>
+                          <span className="text-xs font-medium text-gray-500">#{index + 1} </span>
+                          <span className="font-medium">{pair.q}</span>
+                          <span className="line-clamp-2 text-gray-600">{pair.a}</span>
+                        </span>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+              <div className="mt-3 flex flex-wrap gap-2">
+                <Button variant="secondary" onClick={() => { onMerge(c.ids, keepId); dismiss(c); }} title="Keep the selected answer; other questions become its alternate phrasings">
+                  Merge into selected
+                </Button>
+                <Button variant="ghost" onClick={() => { onKeepSeparate(c.ids); dismiss(c); }} title="Stop flagging these pairs as duplicates">
+                  Keep separate
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
 }
 
+// ---------- Scanner UI ----------
+
 /**
- * Accepts:
- * - ExportPayload { bot, pairs }
- * - Raw array of QA objects: [ {q,a}, ... ], or [{question,answer}, ...]
- * - Array of tuples: [ ["q","a"], ... ] (3rd element optional tags)
- * - Wrapped objects: { pairs|data|faqs|items|records: [...] }
- * - JSONL (one JSON per line)
+ * Textarea with a pointer-transparent overlay that mirrors its text and paints
+ * translucent marks over scan findings. Always renders the same tree so the
+ * textarea keeps focus while findings come and go.
  */
-function parseAnyQAPairs(jsonText: string): {
-  metaPatch?: Partial<BotMeta>;
-  pairs: { q: string; a: string; tags?: string[] }[];
-} {
-  // 1) Try normal JSON first
-  try {
-    const data = JSON.parse(jsonText);
-
-    // If full ExportPayload
-    if (data && typeof data === "object" && "bot" in data && "pairs" in data && Array.isArray((data as any).pairs)) {
-      const bot = (data as any).bot ?? {};
-      const metaPatch: Partial<BotMeta> | undefined = {
-        lab: coerceStr(bot.lab || ""),
-        botName: coerceStr(bot.name || ""),
-        ownerEmail: coerceStr(bot.owner_email || ""),
-        description: coerceStr(bot.description || ""),
-        baseModel: coerceStr(bot.model || "qwen2.5:7b-instruct"),
-        embedModel: coerceStr(bot.embed_model || "nomic-embed-text"),
-        temperature: typeof bot.temperature === "number" ? bot.temperature : 0.2,
-        topP: typeof bot.top_p === "number" ? bot.top_p : 0.95,
-      };
+function HighlightTextarea({ findings, allowed, hits = [], ...props }: React.TextareaHTMLAttributes<HTMLTextAreaElement> & {
+  findings: Finding[];
+  allowed: Set<string>;
+  /** Search matches; findings win where the two overlap. */
+  hits?: TextRange[];
+}) {
+  const overlayRef = useRef<HTMLDivElement | null>(null);
+  const text = String(props.value ?? "");
+  const marks = [
+    ...findings.map(f => ({
+      start: f.start,
+      end: f.end,
+      key: f.key + f.start,
+      className: allowed.has(f.key) ? "bg-gray-300/40" : f.severity === "high" ? "bg-rose-400/40" : "bg-amber-300/50",
+    })),
+    ...hits
+      .filter(h => !findings.some(f => h.start < f.end && f.start < h.end))
+      .map(h => ({ ...h, key: `hit${h.start}`, className: "bg-yellow-300/60" })),
+  ].sort((x, y) => x.start - y.start);
+  const pieces: React.ReactNode[] = [];
+  let pos = 0;
+  for (const m of marks) {
+    pieces.push(text.slice(pos, m.start));
+    pieces.push(
+      <mark key={m.key} className={classNames("rounded-sm text-transparent", m.className)}>
+        {text.slice(m.start, m.end)}
+      </mark>
+    );
+    pos = m.end;
+  }
+  pieces.push(text.slice(pos));
 
-      const pairs = ((data as any).pairs as any[])
-        .map(item => (Array.isArray(item) ? extractQAFromArray(item) : extractQAFromObject(item)))
-        .filter(Boolean) as { q: string; a: string; tags?: string[] }[];
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        onScroll={(e) => { if (overlayRef.current) overlayRef.current.scrollTop = e.currentTarget.scrollTop; }}
+      />
+      <div
+        ref={overlayRef}
+        aria-hidden
+        className="pointer-events-none absolute inset-0 overflow-hidden whitespace-pre-wrap break-words rounded-xl border border-transparent px-3 py-2 text-sm text-transparent"
+      >
+        {pieces}
+        {"\n"}
+      </div>
+    </div>
+  );
+}
 
-      if (!pairs.length) throw new Error("No valid Q/A items found in ExportPayload.pairs");
-      return { metaPatch, pairs };
+function FindingList({ findings, allowed, onToggle }: { findings: Finding[]; allowed: Set<string>; onToggle: (key: string) => void }) {
+  if (!findings.length) return null;
+  return (
+    <ul className="mt-2 space-y-1">
+      {findings.map(f => {
+        const ok = allowed.has(f.key);
+        return (
+          <li key={f.key + f.start} className="flex items-center justify-between gap-2 text-xs">
+            <span className={classNames(ok ? "text-gray-400 line-through" : f.severity === "high" ? "text-rose-700" : "text-amber-700")}>
+              {f.severity === "high" ? "High" : "Medium"} · {f.label}: <code>{f.match}</code>
+            </span>
+            <button className="shrink-0 text-indigo-600 hover:underline" onClick={() => onToggle(f.key)}>
+              {ok ? "Undo allow" : "Allow"}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// ---------- Sign-in ----------
+
+function SignInCard({ session, issuer, onSignIn, onSignOut }: {
+  session: Session | null;
+  issuer: string;
+  onSignIn: (session: AuthSession) => void;
+  onSignOut: () => void;
+}) {
+  const [email, setEmail] = useState(session?.email ?? "");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const emailOk = /.+@.+\..+/.test(email.trim());
+
+  async function handleSendCode() {
+    if (!emailOk) return;
+    setBusy(true);
+    setError("");
+    try {
+      await requestSignInCode(issuer, email);
+      setCodeSent(true);
+      setCode("");
+    } catch (e: any) {
+      setError(`Could not send a code. ${e?.message || e}`);
+    } finally {
+      setBusy(false);
     }
+  }
 
-    // If raw array
-    if (Array.isArray(data)) {
-      const pairs = data
-        .map(item => (Array.isArray(item) ? extractQAFromArray(item) : extractQAFromObject(item)))
-        .filter(Boolean) as { q: string; a: string; tags?: string[] }[];
-      if (!pairs.length) throw new Error("No valid Q/A rows in array");
-      return { pairs };
+  async function handleVerify() {
+    if (!code.trim()) return;
+    setBusy(true);
+    setError("");
+    try {
+      onSignIn(await verifySignInCode(issuer, email, code));
+      setCodeSent(false);
+      setCode("");
+    } catch (e: any) {
+      setError(`Sign-in failed. ${e?.message || e}`);
+    } finally {
+      setBusy(false);
     }
+  }
+
+  if (session && !session.expired) {
+    return (
+      <Card>
+        <div className="flex items-center justify-between gap-2">
+          <div className="min-w-0 text-sm">
+            <div className="truncate">Signed in as <span className="font-medium">{session.email}</span></div>
+            <Tiny>Session ends at {formatClock(session.expiresAt)}</Tiny>
+          </div>
+          <Button variant="ghost" className="px-2 py-1" onClick={onSignOut}>Sign out</Button>
+        </div>
+      </Card>
+    );
+  }
 
-    // If wrapped under common keys
-    if (data && typeof data === "object") {
-      const wrapKey = ["pairs", "data", "faqs", "items", "records"].find(k => Array.isArray((data as any)[k]));
-      if (wrapKey) {
-        const arr: any[] = (data as any)[wrapKey];
-        const pairs = arr
-          .map(item => (Array.isArray(item) ? extractQAFromArray(item) : extractQAFromObject(item)))
-          .filter(Boolean) as { q: string; a: string; tags?: string[] }[];
-        if (!pairs.length) throw new Error(`No valid Q/A under '${wrapKey}'`);
-        return { pairs };
+  if (!issuer) {
+    return (
+      <Card>
+        <SectionHeading title="Sign in" subtitle="Submissions and updates are sent as you." />
+        <div className="rounded-lg border border-rose-200 bg-rose-50 px-2 py-1 text-xs text-rose-700" role="alert">
+          Sign-in is not configured for this build: set <code>VITE_AUTH_ISSUER</code> and rebuild. Until then nothing can be
+          submitted; your draft and the Outbox are kept.
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <SectionHeading title="Sign in" subtitle="Submissions and updates are sent as you. We email a one-time code to confirm your address." />
+      {session?.expired && (
+        <div className="mb-3 rounded-lg border border-amber-200 bg-amber-50 px-2 py-1 text-xs text-amber-800" role="alert">
+          Your session as {session.email} has expired. Sign in again to submit; your draft and the Outbox are kept.
+        </div>
+      )}
+      <div className="space-y-3">
+        <div>
+          <Label htmlFor="signin-email">Email</Label>
+          <Input
+            id="signin-email"
+            type="email"
+            placeholder="name@umass.edu"
+            value={email}
+            onChange={(e) => { setEmail(e.target.value); setCodeSent(false); }}
+            onKeyDown={(e) => { if (e.key === "Enter") handleSendCode(); }}
+          />
+        </div>
+        {codeSent && (
+          <div>
+            <Label htmlFor="signin-code">Code</Label>
+            <Input
+              id="signin-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="6-digit code from the email"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") handleVerify(); }}
+            />
+          </div>
+        )}
+        <div className="flex gap-2">
+          {codeSent ? (
+            <>
+              <Button onClick={handleVerify} disabled={busy || !code.trim()}>Verify</Button>
+              <Button variant="ghost" onClick={handleSendCode} disabled={busy}>Send a new code</Button>
+            </>
+          ) : (
+            <Button onClick={handleSendCode} disabled={busy || !emailOk}>Email me a code</Button>
+          )}
+        </div>
+        {error && <div className="text-xs text-rose-700" role="alert">{error}</div>}
+        <Tiny>Issuer: {issuer}</Tiny>
+      </div>
+    </Card>
+  );
+}
+
+// ---------- Backend settings ----------
+
+function BackendSettings({ targets, activeId, onSelect, onAdd, onRemove, onClose }: {
+  targets: BackendTarget[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAdd: (target: BackendTarget) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [base, setBase] = useState("");
+  const urlOk = /^https?:\/\/[^\s/]+/.test(base.trim());
+  const nameTaken = targets.some(t => t.name === name.trim());
+
+  function handleAdd() {
+    if (!name.trim() || !urlOk || nameTaken) return;
+    onAdd({ id: `custom-${uid()}`, name: name.trim(), base: base.trim().replace(/\/+$/, "") });
+    setName("");
+    setBase("");
+  }
+
+  return (
+    <Card className="mb-6">
+      <div className="mb-4 flex items-start justify-between">
+        <SectionHeading title="Backend settings" subtitle="Choose which server health checks and submissions go to." />
+        <Button variant="ghost" onClick={onClose}>Close</Button>
+      </div>
+      <div className="space-y-2">
+        {targets.map(t => (
+          <label key={t.id} className="flex items-center gap-3 rounded-xl border border-gray-200 px-3 py-2 text-sm">
+            <input type="radio" name="backend-target" checked={t.id === activeId} onChange={() => onSelect(t.id)} />
+            <span className="w-24 shrink-0 font-medium">{t.name}</span>
+            <code className="flex-1 truncate text-gray-600">{t.base}</code>
+            {t.builtin ? (
+              <Tiny>built-in</Tiny>
+            ) : (
+              <Button variant="ghost" className="px-2 py-1" onClick={(e) => { e.preventDefault(); onRemove(t.id); }}>Remove</Button>
+            )}
+          </label>
+        ))}
+      </div>
+      <div className="mt-4 grid grid-cols-1 gap-2 sm:grid-cols-[8rem_1fr_auto]">
+        <Input placeholder="name" value={name} onChange={(e) => setName(e.target.value)} />
+        <Input placeholder="https://chatbots.example.umass.edu" value={base} onChange={(e) => setBase(e.target.value)} />
+        <Button variant="secondary" onClick={handleAdd} disabled={!name.trim() || !urlOk || nameTaken}>Add target</Button>
+      </div>
+      {nameTaken && <Tiny>A target with that name already exists.</Tiny>}
+    </Card>
+  );
+}
+
+// ---------- My submissions ----------
+
+const STATUS_STYLES: Record<DeployStatus, string> = {
+  queued: "bg-gray-100 text-gray-700",
+  building: "bg-indigo-100 text-indigo-700",
+  deployed: "bg-green-100 text-green-700",
+  failed: "bg-rose-100 text-rose-700",
+};
+
+function formatTime(iso?: string) {
+  return iso ? new Date(iso).toLocaleString() : "—";
+}
+
+function formatClock(iso?: string) {
+  return iso ? new Date(iso).toLocaleTimeString() : "—";
+}
+
+function OutboxPanel({ outbox, onRetry, onCancel }: {
+  outbox: OutboxItem[];
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+}) {
+  if (!outbox.length) return null;
+  return (
+    <Card>
+      <SectionHeading
+        title="Outbox"
+        subtitle="Submissions the backend has not accepted yet. They are re-sent automatically, with growing pauses, until they go through."
+      />
+      <ul className="space-y-3">
+        {outbox.map(o => (
+          <li key={o.id} className="rounded-xl border border-gray-200 p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{o.payload.bot.name}</div>
+                <Tiny>{o.payload.bot.slug} · {o.backend} · queued {formatTime(o.queuedAt)}</Tiny>
+              </div>
+              <span className={classNames("shrink-0 rounded px-2 py-0.5 text-xs", o.failed ? STATUS_STYLES.failed : "bg-amber-100 text-amber-700")}>
+                {o.failed ? "rejected" : "waiting"}
+              </span>
+            </div>
+            {o.lastError && (
+              <div className={classNames("mt-2 text-xs", o.failed ? "text-rose-700" : "text-amber-700")} role={o.failed ? "alert" : undefined}>
+                {o.lastError}
+              </div>
+            )}
+            <Tiny>
+              {o.attempts} attempt{o.attempts === 1 ? "" : "s"}
+              {o.failed ? " · not retried, the backend refused it" : ` · next try ${formatTime(o.nextAttemptAt)}`}
+            </Tiny>
+            <div className="mt-2 flex gap-2">
+              {!o.failed && <Button variant="ghost" className="px-2 py-1" onClick={() => onRetry(o.id)}>Retry now</Button>}
+              <Button variant="ghost" className="px-2 py-1" onClick={() => onCancel(o.id)}>{o.failed ? "Remove" : "Cancel"}</Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
+
+function SubmissionsPanel({ submissions, onRefresh, onRemove }: {
+  submissions: Submission[];
+  onRefresh: (id: string) => void;
+  onRemove: (id: string) => void;
+}) {
+  if (!submissions.length) return null;
+  return (
+    <Card>
+      <SectionHeading title="My submissions" subtitle="Deployment status is checked automatically while a bot is queued or building." />
+      <ul className="space-y-3">
+        {submissions.map(s => (
+          <li key={s.id} className="rounded-xl border border-gray-200 p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{s.botName}</div>
+                <Tiny>{s.slug} · submitted {formatTime(s.submittedAt)}</Tiny>
+              </div>
+              <span className={classNames("shrink-0 rounded px-2 py-0.5 text-xs", STATUS_STYLES[s.status])}>{s.status}</span>
+            </div>
+            {s.status === "deployed" && s.chatUrl && (
+              <a className="mt-2 block truncate text-indigo-600 hover:underline" href={s.chatUrl} target="_blank" rel="noreferrer">
+                {s.chatUrl}
+              </a>
+            )}
+            {s.status === "failed" && (
+              <div className="mt-2 rounded-lg border border-rose-200 bg-rose-50 px-2 py-1 text-xs text-rose-700" role="alert">
+                {s.error}
+              </div>
+            )}
+            {s.checkError && <div className="mt-2 text-xs text-amber-700">{s.checkError}</div>}
+            <details className="mt-2">
+              <summary className="cursor-pointer text-xs text-gray-500">History · last checked {formatTime(s.lastCheckedAt)}</summary>
+              <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                {s.history.map((h, i) => <li key={i}>{formatTime(h.at)} — {h.status}</li>)}
+              </ul>
+            </details>
+            <div className="mt-2 flex gap-2">
+              <Button variant="ghost" className="px-2 py-1" onClick={() => onRefresh(s.id)}>Refresh</Button>
+              <Button variant="ghost" className="px-2 py-1" onClick={() => onRemove(s.id)}>Forget</Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
+
+// ---------- Advanced settings ----------
+
+function modelDetails(m: ModelInfo | undefined) {
+  if (!m) return "Not in the backend catalog — it may not be available.";
+  return [
+    m.contextLength ? `${m.contextLength.toLocaleString()} token context` : "",
+    m.embeddingDim ? `${m.embeddingDim}-dim embeddings` : "",
+    m.description || "",
+  ].filter(Boolean).join(" · ");
+}
+
+function ModelPicker({ id, label, kind, value, catalog, onChange }: {
+  id: string;
+  label: string;
+  kind: ModelKind;
+  value: string;
+  catalog: ModelInfo[];
+  onChange: (name: string) => void;
+}) {
+  const options = catalog.filter(m => m.kind === kind);
+  const current = options.find(m => m.name === value);
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <select
+        id={id}
+        className="w-full rounded-xl border border-gray-300 bg-white px-2 py-2 text-sm"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {!current && <option value={value}>{value} (not in catalog)</option>}
+        {options.map(m => (
+          <option key={m.name} value={m.name}>{m.name}</option>
+        ))}
+      </select>
+      <Tiny>{modelDetails(current)}</Tiny>
+    </div>
+  );
+}
+
+function RangeSetting({ id, setting, value, onChange }: {
+  id?: string; // needed when the same setting is shown more than once
+  setting: RangedSetting;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  const { min, max, step, label } = SETTING_RANGES[setting];
+  const ok = inRange(setting, value);
+  const inputId = id ?? `setting-${setting}`;
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor={inputId}>{label}</Label>
+        <span className={classNames("text-xs tabular-nums", ok ? "text-gray-600" : "text-rose-700")}>{value}</span>
+      </div>
+      <input
+        id={inputId}
+        type="range"
+        className="w-full accent-indigo-600"
+        min={min}
+        max={max}
+        step={step}
+        value={ok ? value : Math.min(max, Math.max(min, value || 0))}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+      {!ok && <div className="text-xs text-rose-700">Out of range ({min}–{max}); move the slider to fix it.</div>}
+    </div>
+  );
+}
+
+function AdvancedSettings({ meta, catalog, catalogSource, onChange }: {
+  meta: BotMeta;
+  catalog: ModelInfo[];
+  catalogSource: "backend" | "fallback" | "loading";
+  onChange: (patch: Partial<BotMeta>, label: string) => void;
+}) {
+  return (
+    <Card>
+      <details data-undo-history>
+        <summary className="cursor-pointer select-none">
+          <span className="text-xl font-semibold tracking-tight">Advanced settings</span>
+          <span className="ml-2 text-xs text-gray-500">{meta.baseModel} · {meta.embedModel}</span>
+        </summary>
+        <div className="mt-4 space-y-4">
+          {catalogSource === "fallback" && (
+            <Tiny>Model catalog unavailable from this backend — showing the default models only.</Tiny>
+          )}
+          <ModelPicker id="baseModel" label="Chat model" kind="chat" value={meta.baseModel} catalog={catalog} onChange={(name) => onChange({ baseModel: name }, "Change chat model")} />
+          <ModelPicker id="embedModel" label="Embedding model" kind="embedding" value={meta.embedModel} catalog={catalog} onChange={(name) => onChange({ embedModel: name }, "Change embedding model")} />
+          <RangeSetting setting="temperature" value={meta.temperature} onChange={(v) => onChange({ temperature: v }, "Edit temperature")} />
+          <RangeSetting setting="topP" value={meta.topP} onChange={(v) => onChange({ topP: v }, "Edit top_p")} />
+          <Tiny>Lower temperature keeps answers close to your Q&A text; top_p limits sampling to the most likely tokens.</Tiny>
+        </div>
+      </details>
+    </Card>
+  );
+}
+
+// ---------- Behavior settings ----------
+
+function BehaviorSettings({ meta, onChange }: {
+  meta: BotMeta;
+  onChange: (patch: Partial<BotMeta>, label: string) => void;
+}) {
+  const contactProblem = contactIssue(meta.escalationContact);
+  return (
+    <Card>
+      <SectionHeading title="Persona & behavior" subtitle="How the bot introduces itself and what it does when it can't help." />
+      <div className="space-y-4" data-undo-history>
+        <div>
+          <Label htmlFor="systemPrompt">System prompt / persona</Label>
+          <Textarea
+            id="systemPrompt"
+            placeholder="e.g., You are a friendly TA for BIO 311. Keep answers short and cite the syllabus section."
+            value={meta.systemPrompt ?? ""}
+            onChange={(e) => onChange({ systemPrompt: e.target.value }, "Edit system prompt")}
+          />
+        </div>
+        <div>
+          <Label htmlFor="greeting">Greeting</Label>
+          <Input
+            id="greeting"
+            placeholder="e.g., Hi! Ask me about booking instruments or training."
+            value={meta.greeting ?? ""}
+            onChange={(e) => onChange({ greeting: e.target.value }, "Edit greeting")}
+          />
+        </div>
+        <div>
+          <Label htmlFor="fallbackMessage">When no pair matches</Label>
+          <Input
+            id="fallbackMessage"
+            placeholder="e.g., I'm not sure — please check with the lab manager."
+            value={meta.fallbackMessage ?? ""}
+            onChange={(e) => onChange({ fallbackMessage: e.target.value }, "Edit fallback message")}
+          />
+        </div>
+        <div>
+          <Label htmlFor="escalationContact">Escalation contact</Label>
+          <Input
+            id="escalationContact"
+            placeholder="office-hours link or TA email"
+            value={meta.escalationContact ?? ""}
+            onChange={(e) => onChange({ escalationContact: e.target.value }, "Edit escalation contact")}
+          />
+          {contactProblem && <div className="text-xs text-rose-700">{contactProblem}</div>}
+        </div>
+        <div>
+          <Label htmlFor="refusedTopics">Topics to refuse (one per line)</Label>
+          <Textarea
+            id="refusedTopics"
+            placeholder={"exam answers\nmedical advice"}
+            value={(meta.refusedTopics || []).join("\n")}
+            onChange={(e) => onChange({ refusedTopics: e.target.value.split("\n") }, "Edit refused topics")}
+          />
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+// ---------- Markdown preview ----------
+
+function MarkdownInline({ nodes }: { nodes: MdInline[] }) {
+  return (
+    <>
+      {nodes.map((n, i) => {
+        switch (n.kind) {
+          case "text":
+            return <React.Fragment key={i}>{n.text}</React.Fragment>;
+          case "code":
+            return <code key={i} className="rounded bg-gray-100 px-1 font-mono text-[0.85em]">{n.text}</code>;
+          case "strong":
+            return <strong key={i}><MarkdownInline nodes={n.children} /></strong>;
+          case "em":
+            return <em key={i}><MarkdownInline nodes={n.children} /></em>;
+          case "link": {
+            const href = safeHref(n.url);
+            return href ? (
+              <a key={i} href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-700 underline">{n.text}</a>
+            ) : (
+              <span key={i} className="text-rose-700 underline decoration-wavy" title={`Broken link: ${n.url || "(empty)"}`}>{n.text}</span>
+            );
+          }
+        }
+      })}
+    </>
+  );
+}
+
+function MarkdownView({ text }: { text: string }) {
+  const blocks = useMemo(() => parseMarkdownBlocks(text), [text]);
+  const headingSize = ["text-lg", "text-base", "text-sm"];
+  return (
+    <div className="space-y-2 text-sm text-gray-800">
+      {blocks.map((b, i) => {
+        switch (b.kind) {
+          case "p":
+            return <p key={i}><MarkdownInline nodes={parseInline(b.text)} /></p>;
+          case "h":
+            return <div key={i} role="heading" aria-level={b.level} className={classNames("font-semibold", headingSize[Math.min(b.level, 3) - 1])}><MarkdownInline nodes={parseInline(b.text)} /></div>;
+          case "quote":
+            return <blockquote key={i} className="border-l-4 border-amber-300 bg-amber-50 px-3 py-1"><MarkdownInline nodes={parseInline(b.text)} /></blockquote>;
+          case "code":
+            return <pre key={i} className="overflow-x-auto rounded-lg bg-gray-900 px-3 py-2 font-mono text-xs text-gray-100">{b.text}</pre>;
+          case "ul":
+            return <ul key={i} className="list-disc space-y-0.5 pl-5">{b.items.map((it, j) => <li key={j}><MarkdownInline nodes={parseInline(it)} /></li>)}</ul>;
+          case "ol":
+            return <ol key={i} start={b.start} className="list-decimal space-y-0.5 pl-5">{b.items.map((it, j) => <li key={j}><MarkdownInline nodes={parseInline(it)} /></li>)}</ol>;
+        }
+      })}
+    </div>
+  );
+}
+
+// ---------- Virtual list & facets ----------
+
+/**
+ * Renders only the items near the browser viewport (the page scrolls, not the list),
+ * padding the rest with spacers. Heights are measured as items render and estimated
+ * until then, so items may grow and shrink freely.
+ */
+function VirtualList<T>({ items, itemKey, children, estimate = 320, overscan = 600 }: {
+  items: T[];
+  itemKey: (item: T) => string;
+  children: (item: T) => React.ReactNode;
+  estimate?: number;
+  overscan?: number;
+}) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [viewport, setViewport] = useState({ top: 0, bottom: window.innerHeight });
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+
+  useEffect(() => {
+    function update() {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (rect) setViewport({ top: -rect.top, bottom: window.innerHeight - rect.top });
+    }
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    return () => {
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, [items.length]);
+
+  const observer = useMemo(() => new ResizeObserver(entries => {
+    setHeights(prev => {
+      let next = prev;
+      for (const e of entries) {
+        const el = e.target as HTMLElement;
+        const key = el.dataset.key ?? "";
+        if (prev.get(key) === el.offsetHeight) continue;
+        if (next === prev) next = new Map(prev);
+        next.set(key, el.offsetHeight);
       }
+      return next;
+    });
+  }), []);
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  let total = 0;
+  let first = -1;
+  let last = items.length;
+  let padTop = 0;
+  let shownHeight = 0;
+  items.forEach((item, i) => {
+    const h = heights.get(itemKey(item)) ?? estimate;
+    if (first < 0 && total + h >= viewport.top - overscan) {
+      first = i;
+      padTop = total;
     }
-  } catch {
-    // fallthrough to JSONL attempt
+    if (first >= 0 && last === items.length && total > viewport.bottom + overscan) last = i;
+    if (first >= 0 && last === items.length) shownHeight += h;
+    total += h;
+  });
+  if (first < 0) {
+    first = items.length;
+    padTop = total;
+  }
+
+  return (
+    <div ref={containerRef}>
+      <div style={{ height: padTop }} />
+      {items.slice(first, last).map(item => {
+        const key = itemKey(item);
+        return (
+          <div
+            key={key}
+            data-key={key}
+            className="pb-4"
+            ref={el => {
+              if (!el) return;
+              observer.observe(el);
+              return () => observer.unobserve(el);
+            }}
+          >
+            {children(item)}
+          </div>
+        );
+      })}
+      <div style={{ height: total - padTop - shownHeight }} />
+    </div>
+  );
+}
+
+function TagFacets({ facets, total, selected, onSelect }: {
+  facets: { tag: string; count: number }[];
+  total: number;
+  selected: string | null;
+  onSelect: (tag: string | null) => void;
+}) {
+  const item = (tag: string | null, label: React.ReactNode, count: number) => (
+    <li key={tag ?? "*"}>
+      <button
+        type="button"
+        onClick={() => onSelect(selected === tag ? null : tag)}
+        className={classNames(
+          "flex w-full items-center justify-between gap-2 rounded-lg px-2 py-1 text-left text-sm",
+          selected === tag ? "bg-gray-900 text-white" : "text-gray-700 hover:bg-gray-100"
+        )}
+      >
+        <span className="truncate">{label}</span>
+        <span className={classNames("text-xs", selected === tag ? "text-gray-300" : "text-gray-400")}>{count}</span>
+      </button>
+    </li>
+  );
+  return (
+    <ul className="space-y-0.5">
+      {item(null, "All pairs", total)}
+      {facets.map(f => item(f.tag, f.tag === UNTAGGED ? <em>Untagged</em> : f.tag, f.count))}
+    </ul>
+  );
+}
+
+// ---------- Bulk actions ----------
+
+function BulkBar({ selected, total, allShown, onToggleShown, onClear, onDelete, onDuplicate, onTag, onMoveTo, onLinkTranslations }: {
+  selected: number;
+  total: number;
+  allShown: boolean;
+  onToggleShown: () => void;
+  onClear: () => void;
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onTag: (tag: string, add: boolean) => void;
+  onMoveTo: (position: number) => void;
+  onLinkTranslations: () => void;
+}) {
+  const [tag, setTag] = useState("");
+  const [position, setPosition] = useState("1");
+  const target = Number(position);
+  // Commas would split the tag apart again in the per-pair tag field
+  const clean = tag.replace(/,/g, " ").trim();
+  return (
+    <div className="sticky top-0 z-10 mb-4 flex flex-wrap items-center gap-2 rounded-xl border border-gray-200 bg-white/95 p-2 backdrop-blur">
+      <label className="flex items-center gap-2 px-1 text-sm text-gray-700">
+        <input type="checkbox" checked={allShown} onChange={onToggleShown} />
+        {selected ? `${selected} selected` : "Select shown"}
+      </label>
+      {selected > 0 && (
+        <>
+          <Button variant="ghost" onClick={onClear}>Clear</Button>
+          <Button variant="secondary" onClick={onDuplicate}>Duplicate</Button>
+          <Button variant="danger" onClick={onDelete}>Delete</Button>
+          <div className="flex items-center gap-1">
+            <div className="w-36">
+              <Input list={KNOWN_TAGS_LIST} placeholder="tag" value={tag} onChange={(e) => setTag(e.target.value)} aria-label="Tag for selected pairs" />
+            </div>
+            <Button variant="secondary" disabled={!clean} onClick={() => onTag(clean, true)} title="Add this tag to the selected pairs">+ Tag</Button>
+            <Button variant="secondary" disabled={!clean} onClick={() => onTag(clean, false)} title="Remove this tag from the selected pairs">− Tag</Button>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="secondary"
+              disabled={!Number.isInteger(target) || target < 1}
+              onClick={() => onMoveTo(target)}
+              title="Move the selected pairs, in their current order, to this position"
+            >
+              Move to #
+            </Button>
+            <div className="w-20">
+              <Input type="number" min={1} max={total} value={position} onChange={(e) => setPosition(e.target.value)} aria-label="Target position" />
+            </div>
+          </div>
+          <Button
+            variant="secondary"
+            disabled={selected < 2}
+            onClick={onLinkTranslations}
+            title="Mark the selected pairs as the same pair in different languages"
+          >
+            Link as translations
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ---------- Languages & translations ----------
+
+const COVERAGE_ROW_LIMIT = 50;
+
+// The language picker of a pair: "Auto" keeps following the text, a pick overrides it.
+function LanguageSelect({ id, lang, detected, onChange }: {
+  id: string;
+  lang?: string;
+  detected?: string;
+  onChange: (lang: string | undefined) => void;
+}) {
+  const codes = Object.keys(LANGUAGES);
+  return (
+    <select
+      id={id}
+      className="rounded-xl border border-gray-300 bg-white px-2 py-1 text-sm"
+      value={lang ?? ""}
+      onChange={(e) => onChange(e.target.value || undefined)}
+    >
+      <option value="">Auto{detected ? ` (${languageName(detected)})` : ""}</option>
+      {lang && !codes.includes(lang) && <option value={lang}>{lang}</option>}
+      {codes.map(code => <option key={code} value={code}>{LANGUAGES[code]} ({code})</option>)}
+    </select>
+  );
+}
+
+/** Pairs per language, and the pairs (or groups of linked translations) that lack one of the bot's languages. */
+function LanguageCoverage({ languages, counts, rows, embedModel, onAddTranslation }: {
+  languages: string[];
+  counts: Map<string, number>;
+  rows: CoverageRow[];
+  embedModel: string;
+  onAddTranslation: (pairId: string, lang: string) => void;
+}) {
+  const gaps = rows.filter(r => r.missing.length || r.repeated.length);
+  const unknown = rows.reduce((n, r) => n + r.members.filter(m => !m.lang).length, 0);
+  return (
+    <Card>
+      <SectionHeading
+        title="Languages"
+        subtitle="Each pair's language is detected from its text unless set on the pair. Linked translations let the bot answer in the language it was asked in."
+      />
+      <div className="mb-3 flex flex-wrap gap-1.5 text-xs">
+        {languages.map(l => (
+          <span key={l} className="rounded-full bg-gray-100 px-2 py-0.5 text-gray-800">{languageName(l)} · {counts.get(l)}</span>
+        ))}
+        {unknown > 0 && <span className="rounded-full bg-amber-100 px-2 py-0.5 text-amber-700">not detected · {unknown}</span>}
+      </div>
+      {languages.length < 2 ? (
+        <Tiny>
+          Everything is in {languages.length ? languageName(languages[0]) : "one language"}. To add another, write the translated pairs,
+          select them together with the originals and use "Link as translations".
+        </Tiny>
+      ) : (
+        <>
+          <Tiny>
+            {rows.length - gaps.length} of {rows.length} pair{rows.length === 1 ? "" : "s"} cover all {languages.length} languages.
+            Queries are matched with {embedModel}; make sure it handles all of them.
+          </Tiny>
+          <ul className="mt-3 space-y-2">
+            {gaps.slice(0, COVERAGE_ROW_LIMIT).map(row => {
+              const first = row.members[0].pair;
+              return (
+                <li key={row.key} className="rounded-xl border border-gray-200 p-2 text-sm">
+                  <div className="truncate">{first.q.trim() || <span className="text-gray-400">(no question yet)</span>}</div>
+                  <div className="mt-1 flex flex-wrap items-center gap-1.5 text-xs">
+                    {row.members.map(m => (
+                      <span key={m.pair.id} className="rounded bg-gray-100 px-1.5 py-0.5 text-gray-700">{m.lang ?? "?"}</span>
+                    ))}
+                    {row.repeated.map(l => (
+                      <span key={`r-${l}`} className="text-amber-700">two answers in {languageName(l)}</span>
+                    ))}
+                    {row.missing.map(l => (
+                      <Button key={l} variant="ghost" className="px-1.5 py-0.5 text-xs" onClick={() => onAddTranslation(first.id, l)} title={`Add an empty ${languageName(l)} pair linked to this one`}>
+                        + {languageName(l)}
+                      </Button>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          {gaps.length > COVERAGE_ROW_LIMIT && <Tiny>…and {gaps.length - COVERAGE_ROW_LIMIT} more.</Tiny>}
+        </>
+      )}
+    </Card>
+  );
+}
+
+// ---------- Tag editing ----------
+
+// id of the single <datalist> of existing tags that tag fields autocomplete from
+const KNOWN_TAGS_LIST = "known-tags";
+
+// Tags as removable chips; Enter or "," adds the typed tag, picking a suggestion adds it directly.
+function TagInput({ tags, known, rules, onChange }: {
+  tags: string[];
+  known: string[];
+  rules: TagRules;
+  onChange: (tags: string[]) => void;
+}) {
+  const [draft, setDraft] = useState("");
+
+  function add(text: string) {
+    const next = uniqueTags([...tags, ...text.split(",").map(t => canonicalTag(t, rules, known))]);
+    if (next.length !== tags.length) onChange(next);
+    setDraft("");
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 rounded-xl border border-gray-300 bg-white px-2 py-1.5 focus-within:border-indigo-500">
+      {tags.map((t, i) => (
+        <span key={`${t}-${i}`} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-800">
+          {t}
+          <button
+            className="text-gray-400 hover:text-gray-700"
+            aria-label={`Remove tag "${t}"`}
+            onClick={() => onChange(tags.filter((_, j) => j !== i))}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        list={KNOWN_TAGS_LIST}
+        className="min-w-[10rem] flex-1 bg-transparent px-1 text-sm outline-none"
+        placeholder={tags.length ? "add tag" : "e.g., syllabus, office-hours, policy"}
+        value={draft}
+        onChange={(e) => {
+          const picked = (e.nativeEvent as InputEvent).inputType === "insertReplacementText";
+          if (picked || e.target.value.includes(",")) add(e.target.value);
+          else setDraft(e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && draft.trim()) {
+            e.preventDefault();
+            add(draft);
+          }
+          if (e.key === "Backspace" && !draft && tags.length) onChange(tags.slice(0, -1));
+        }}
+        onBlur={() => { if (draft.trim()) add(draft); }}
+      />
+    </div>
+  );
+}
+
+/** Per-tag overview with rename/merge/remove, lookalike suggestions and normalization rules. */
+function TagManager({ facets, rules, onRules, onRetag, onNormalize, onShow }: {
+  facets: { tag: string; count: number }[];
+  rules: TagRules;
+  onRules: (rules: TagRules) => void;
+  onRetag: (from: string[], to: string, label: string) => void;
+  onNormalize: () => void;
+  onShow: (tag: string) => void;
+}) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const tags = facets.filter(f => f.tag !== UNTAGGED);
+  const untagged = facets.find(f => f.tag === UNTAGGED)?.count ?? 0;
+  const lookalikes = lookalikeTags(facets);
+  const unnormalized = tags.filter(f => normalizeTag(f.tag, rules) !== f.tag).length;
+
+  function commitRename(from: string) {
+    const to = normalizeTag(name, rules);
+    setEditing(null);
+    if (!to || to === from) return;
+    const merging = tags.some(f => f.tag === to);
+    onRetag([from], to, merging ? `Merge tag "${from}" into "${to}"` : `Rename tag "${from}" to "${to}"`);
   }
 
-  // 2) Try JSON Lines (JSONL): one JSON per line
-  const lines = jsonText.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
-  const fromJsonl: { q: string; a: string; tags?: string[] }[] = [];
-  if (lines.length > 1) {
-    for (const line of lines) {
-      try {
-        const obj = JSON.parse(line);
-        let qa = null;
-        if (Array.isArray(obj)) qa = extractQAFromArray(obj);
-        else qa = extractQAFromObject(obj);
-        if (qa) fromJsonl.push(qa);
-      } catch {
-        // ignore bad lines
-      }
-    }
-    if (fromJsonl.length) return { pairs: fromJsonl };
-  }
+  return (
+    <Card>
+      <details>
+        <summary className="cursor-pointer select-none">
+          <span className="text-xl font-semibold tracking-tight">Tags</span>
+          <span className="ml-2 text-xs text-gray-500">{tags.length} tag{tags.length === 1 ? "" : "s"} · {untagged} untagged</span>
+        </summary>
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="tagCase">Case</Label>
+              <select
+                id="tagCase"
+                className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-2 py-2 text-sm"
+                value={rules.case}
+                onChange={(e) => onRules({ ...rules, case: e.target.value as TagRules["case"] })}
+              >
+                <option value="keep">As typed</option>
+                <option value="lower">lowercase</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="tagSeparator">Word separator</Label>
+              <select
+                id="tagSeparator"
+                className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-2 py-2 text-sm"
+                value={rules.separator}
+                onChange={(e) => onRules({ ...rules, separator: e.target.value as TagRules["separator"] })}
+              >
+                <option value="keep">As typed</option>
+                <option value="-">hyphen (office-hours)</option>
+                <option value="_">underscore (office_hours)</option>
+              </select>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <Tiny>New tags follow these rules and reuse an existing spelling when one matches.</Tiny>
+            <Button variant="secondary" onClick={onNormalize} disabled={!unnormalized}>
+              Apply to {unnormalized} tag{unnormalized === 1 ? "" : "s"}
+            </Button>
+          </div>
+
+          {lookalikes.length > 0 && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50 p-3">
+              <div className="mb-2 text-sm font-medium text-amber-900">Tags that look the same</div>
+              <ul className="space-y-2">
+                {lookalikes.map(group => (
+                  <li key={group.join("\n")} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-amber-900">{group.join(", ")}</span>
+                    <Button
+                      variant="secondary"
+                      onClick={() => onRetag(group.slice(1), group[0], `Merge tags ${group.slice(1).map(t => `"${t}"`).join(", ")} into "${group[0]}"`)}
+                    >
+                      Merge into “{group[0]}”
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <ul className="divide-y divide-gray-100">
+            {tags.map(({ tag, count }) => (
+              <li key={tag} className="flex items-center justify-between gap-2 py-1.5 text-sm">
+                {editing === tag ? (
+                  <div className="flex-1">
+                    <Input
+                      autoFocus
+                      aria-label={`New name for tag "${tag}"`}
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      onBlur={() => commitRename(tag)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename(tag);
+                        if (e.key === "Escape") setEditing(null);
+                      }}
+                    />
+                  </div>
+                ) : (
+                  <button type="button" className="truncate text-left hover:underline" onClick={() => onShow(tag)} title="Show these pairs">
+                    {tag} <span className="text-xs text-gray-400">{count}</span>
+                  </button>
+                )}
+                <div className="flex shrink-0 items-center gap-1">
+                  <Button variant="ghost" onClick={() => { setName(tag); setEditing(tag); }} title="Renaming to an existing tag merges the two">Rename</Button>
+                  <Button variant="ghost" onClick={() => onRetag([tag], "", `Remove tag "${tag}"`)}>Remove</Button>
+                </div>
+              </li>
+            ))}
+            <li className="flex items-center justify-between gap-2 py-1.5 text-sm">
+              <button type="button" className="text-left italic text-gray-600 hover:underline" onClick={() => onShow(UNTAGGED)} disabled={!untagged}>
+                Untagged <span className="text-xs not-italic text-gray-400">{untagged}</span>
+              </button>
+            </li>
+          </ul>
+        </div>
+      </details>
+    </Card>
+  );
+}
+
+// ---------- Variant chips ----------
 
-  // 3) If nothing matched:
-  throw new Error("Unsupported JSON format: could not find Q/A pairs");
-}
+// Alternate phrasings of a question as removable chips; Enter (or "|") adds the typed one.
+function VariantChips({ question, variants, onChange }: {
+  question: string;
+  variants: string[];
+  onChange: (variants: string[]) => void;
+}) {
+  const [draft, setDraft] = useState("");
 
-// ---------- Mini UI primitives (Tailwind) ----------
+  function add(text: string) {
+    const next = uniqueVariants(question, [...variants, ...text.split("|")]);
+    if (next.length !== variants.length) onChange(next);
+    setDraft("");
+  }
 
-function Card({ children, className = "" }: React.PropsWithChildren<{ className?: string }>) {
   return (
-    <div className={classNames("rounded-2xl shadow-sm border border-gray-200 bg-white/60 backdrop-blur p-5", className)}>
-      {children}
+    <div className="mt-2 flex flex-wrap items-center gap-1.5">
+      <Tiny>Also asked as:</Tiny>
+      {variants.map((v, i) => (
+        <span key={`${v}-${i}`} className="inline-flex items-center gap-1 rounded-full bg-indigo-50 px-2 py-0.5 text-xs text-indigo-800">
+          {v}
+          <button
+            className="text-indigo-400 hover:text-indigo-700"
+            aria-label={`Remove "${v}"`}
+            onClick={() => onChange(variants.filter((_, j) => j !== i))}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        className="min-w-[12rem] flex-1 rounded-full border border-dashed border-gray-300 bg-white px-3 py-0.5 text-xs outline-none focus:border-indigo-500"
+        placeholder="add another phrasing, press Enter"
+        value={draft}
+        onChange={(e) => (e.target.value.includes("|") ? add(e.target.value) : setDraft(e.target.value))}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && draft.trim()) {
+            e.preventDefault();
+            add(draft);
+          }
+          if (e.key === "Backspace" && !draft && variants.length) onChange(variants.slice(0, -1));
+        }}
+        onBlur={() => { if (draft.trim()) add(draft); }}
+      />
     </div>
   );
 }
 
-function SectionHeading({ title, subtitle }: { title: string; subtitle?: string }) {
+// ---------- Draft switcher ----------
+
+function DraftSwitcher({ drafts, activeId, disabled, onSwitch, onNew, onRename, onDuplicate, onDelete }: {
+  drafts: DraftSummary[];
+  activeId: string | null;
+  disabled: boolean;
+  onSwitch: (id: string) => void;
+  onNew: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}) {
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState("");
+  const active = drafts.find(d => d.id === activeId);
+
+  function commitRename() {
+    if (name.trim()) onRename(name.trim());
+    setRenaming(false);
+  }
+
   return (
-    <div className="mb-4">
-      <h2 className="text-xl font-semibold tracking-tight">{title}</h2>
-      {subtitle ? <p className="text-sm text-gray-500">{subtitle}</p> : null}
+    <div className="flex flex-wrap items-center gap-2">
+      {renaming ? (
+        <div className="w-56">
+          <Input
+            autoFocus
+            aria-label="Draft name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitRename();
+              if (e.key === "Escape") setRenaming(false);
+            }}
+          />
+        </div>
+      ) : (
+        <select
+          aria-label="Draft"
+          className="w-56 rounded-xl border border-gray-300 bg-white px-2 py-2 text-sm"
+          value={activeId ?? ""}
+          disabled={disabled || !drafts.length}
+          onChange={(e) => onSwitch(e.target.value)}
+        >
+          {drafts.map(d => (
+            <option key={d.id} value={d.id}>{d.name}</option>
+          ))}
+        </select>
+      )}
+      <Button variant="ghost" onClick={onNew} disabled={disabled}>New</Button>
+      <Button variant="ghost" onClick={() => { setName(active?.name ?? ""); setRenaming(true); }} disabled={disabled || !active}>Rename</Button>
+      <Button variant="ghost" onClick={onDuplicate} disabled={disabled || !active}>Duplicate</Button>
+      <Button variant="ghost" onClick={onDelete} disabled={disabled || !active}>Delete</Button>
     </div>
   );
 }
 
-function Label({ htmlFor, children }: { htmlFor?: string; children: React.ReactNode }) {
-  return (
-    <label htmlFor={htmlFor} className="text-sm font-medium text-gray-700">
-      {children}
-    </label>
-  );
-}
+// ---------- History menu ----------
+
+function HistoryMenu({ history, onUndo, onRedo }: {
+  history: History;
+  onUndo: (steps?: number) => void;
+  onRedo: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const { past, future } = history;
+  const lastDone = past[past.length - 1];
+  const nextRedo = future[future.length - 1];
 
-function Input(props: React.InputHTMLAttributes<HTMLInputElement>) {
   return (
-    <input
-      {...props}
-      className={classNames(
-        "w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm",
-        "outline-none ring-0 focus:border-indigo-500",
-        (props.className as string) || ""
+    <div className="relative flex items-center gap-1">
+      <Button variant="ghost" onClick={() => onUndo()} disabled={!lastDone} title={lastDone ? `Undo ${lastDone.label} (Ctrl+Z)` : "Nothing to undo"}>↶</Button>
+      <Button variant="ghost" onClick={onRedo} disabled={!nextRedo} title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : "Nothing to redo"}>↷</Button>
+      <Button variant="ghost" onClick={() => setOpen(o => !o)} aria-haspopup="menu" aria-expanded={open} disabled={!past.length && !future.length}>
+        History ▾
+      </Button>
+      {open && (
+        <div role="menu" className="absolute right-0 top-full z-40 mt-1 max-h-80 w-64 overflow-auto rounded-xl border border-gray-200 bg-white p-1 shadow-lg">
+          {future.map((e, i) => (
+            <div key={`f${i}`} className="px-3 py-1.5 text-sm text-gray-400" title="Undone — use Redo to reapply">{e.label}</div>
+          ))}
+          <div className="px-3 py-1 text-xs font-medium text-indigo-600">Current state</div>
+          {past.map((e, i) => ({ e, steps: past.length - i })).reverse().map(({ e, steps }) => (
+            <button
+              key={`p${steps}`}
+              role="menuitem"
+              className="flex w-full items-center justify-between rounded-lg px-3 py-1.5 text-left text-sm hover:bg-gray-100"
+              title={`Undo back to before "${e.label}"`}
+              onClick={() => { onUndo(steps); setOpen(false); }}
+            >
+              <span className="truncate">{e.label}</span>
+              <span className="ml-2 shrink-0 text-xs text-gray-400">{new Date(e.at).toLocaleTimeString()}</span>
+            </button>
+          ))}
+        </div>
       )}
-    />
+    </div>
   );
 }
 
-// Forward ref so we can focus() it in the Import dialog
-const Textarea = React.forwardRef<HTMLTextAreaElement, React.TextareaHTMLAttributes<HTMLTextAreaElement>>(
-  (props, ref) => (
-    <textarea
-      ref={ref}
-      {...props}
-      className={classNames(
-        "w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm",
-        "outline-none ring-0 focus:border-indigo-500 min-h-[100px]",
-        (props.className as string) || ""
-      )}
-    />
-  )
-);
-Textarea.displayName = "Textarea";
-
-function Button(
-  { variant = "default", className = "", ...props }:
-  React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: "default" | "secondary" | "danger" | "ghost" }
-) {
-  const base =
-    "inline-flex items-center justify-center gap-2 rounded-xl px-3.5 py-2.5 text-sm font-medium transition";
-  const variants: Record<string, string> = {
-    default: "bg-indigo-600 text-white hover:bg-indigo-500",
-    secondary: "bg-gray-100 text-gray-900 hover:bg-gray-200",
-    danger: "bg-rose-600 text-white hover:bg-rose-500",
-    ghost: "bg-transparent text-gray-700 hover:bg-gray-100",
-  };
-  return <button {...props} className={classNames(base, variants[variant], className)} />;
-}
-
-function Tiny({ children }: { children: React.ReactNode }) {
-  return <span className="text-[11px] text-gray-500">{children}</span>;
-}
-
-// ---------- Self-tests (console) ----------
+// ---------- Deployed bot panel ----------
+
+function DeployedBotPanel({ linked, changes, botChanged, documentsChanged, busy, conflict, onLoad, onUpdate, onUnlink }: {
+  linked: DeployedBaseline | null;
+  changes: PairChanges | null;
+  botChanged: boolean;
+  documentsChanged: boolean;
+  busy: boolean;
+  conflict: boolean;
+  onLoad: (slug: string) => void;
+  onUpdate: () => void;
+  onUnlink: () => void;
+}) {
+  const [slugInput, setSlugInput] = useState("");
+  const count = changes ? countChanges(changes) : 0;
 
-function runSelfTests() {
-  try {
-    // slugify tests
-    console.assert(slugify("Hello World!") === "hello-world", "slugify basic failed");
-    console.assert(slugify("IALS — Houmansadr Lab") === "ials-houmansadr-lab", "slugify em-dash/diacritics failed");
-
-    // payload mapping tests
-    const pairsIn = [
-      { q: " Q1 ", a: " A1 ", tags: [] as string[] },
-      { q: "Q2", a: "A2", tags: ["policy"] },
-    ];
-    const mapped = pairsIn.map(({ q, a, tags }) => ({ q: q.trim(), a: a.trim(), tags: tags && tags.length ? tags : undefined }));
-    console.assert(mapped[0].q === "Q1" && mapped[0].a === "A1" && mapped[0].tags === undefined, "pair trim/tags mapping failed");
-    console.assert(mapped[1].tags && mapped[1].tags[0] === "policy", "pair tags carry-over failed");
-
-    // email regex sanity + meta validator
-    console.assert(/.+@.+\..+/.test("name@umass.edu"), "email regex basic failed");
-    const metaBad: BotMeta = { lab: "", botName: "", ownerEmail: "x", description: "", baseModel: "x", embedModel: "y", temperature: 0.2, topP: 0.9 };
-    const metaGood: BotMeta = { lab: "IALS", botName: "Privacy-LLM", ownerEmail: "prof@umass.edu", description: "", baseModel: "qwen2.5:7b-instruct", embedModel: "nomic-embed-text", temperature: 0.2, topP: 0.95 };
-    console.assert(!validateMeta(metaBad), "validateMeta should fail for bad meta");
-    console.assert(validateMeta(metaGood), "validateMeta should pass for good meta");
-
-    // extra: pairs validity check
-    const somePairs: QAPair[] = [
-      { id: "1", q: "What is RAG?", a: "Retrieval-Augmented Generation.", tags: [] },
-      { id: "2", q: " ", a: " ", tags: [] },
-    ];
-    console.assert(somePairs.some(p => p.q.trim() && p.a.trim()), "pairs validity should detect at least one completed pair");
-  } catch (err) {
-    console.warn("Self-tests encountered an issue:", err);
-  }
+  return (
+    <Card>
+      <SectionHeading title="Update a deployed bot" subtitle="Load a live bot by its slug, edit it here, then send only what changed." />
+      {linked ? (
+        <div className="space-y-3">
+          <div className="text-sm">
+            Editing <code>{linked.slug}</code> · version <code>{linked.versionId}</code>
+          </div>
+          <Tiny>
+            {changes?.added.length ?? 0} added · {changes?.updated.length ?? 0} changed · {changes?.removed.length ?? 0} removed
+            {botChanged ? " · bot settings changed" : ""}
+            {documentsChanged ? " · documents changed" : ""}
+          </Tiny>
+          {conflict && (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700" role="alert">
+              Someone else updated this bot after you loaded it. Reload the latest version, then re-apply your edits.
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={onUpdate} disabled={busy || (!count && !botChanged && !documentsChanged)}>Send update</Button>
+            <Button variant="secondary" onClick={() => onLoad(linked.slug)} disabled={busy}>Reload latest</Button>
+            <Button variant="ghost" onClick={onUnlink} title="Keep the pairs but stop treating this draft as an update">Unlink</Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="bot slug, e.g. ials-microscope-helper"
+            value={slugInput}
+            onChange={(e) => setSlugInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter" && slugInput.trim()) onLoad(slugInput.trim()); }}
+          />
+          <Button variant="secondary" onClick={() => onLoad(slugInput.trim())} disabled={busy || !slugInput.trim()}>Load</Button>
+        </div>
+      )}
+    </Card>
+  );
 }
 
 // ---------- Main Component ----------
 
 export default function App() {
-  // Run lightweight console self-tests once
-  useEffect(() => {
-    runSelfTests();
-  }, []);
-
   // Metadata
-  const [meta, setMeta] = useState<BotMeta>({
-    lab: "",
-    botName: "",
-    ownerEmail: "",
-    description: "",
-    baseModel: "qwen2.5:7b-instruct",
-    embedModel: "nomic-embed-text",
-    temperature: 0.2,
-    topP: 0.95,
-  });
+  const [meta, setMeta] = useState<BotMeta>(emptyMeta);
 
   // QA pairs
   const [pairs, setPairs] = useState<QAPair[]>([{ id: uid(), q: "", a: "", tags: [] }]);
+  // Near-duplicate clusters reviewed and deliberately kept apart (groups of pair ids)
+  const [separateGroups, setSeparateGroups] = useState<string[][]>([]);
+  // Privacy-scan findings the owner explicitly allowed (Finding.key values)
+  const [allowedFindings, setAllowedFindings] = useState<string[]>([]);
+  // How new tags are normalized as they are entered
+  const [tagRules, setTagRules] = useState<TagRules>(DEFAULT_TAG_RULES);
+  // Reference documents retrieved next to the pairs (not part of undo history)
+  const [documents, setDocuments] = useState<RefDocument[]>([]);
+  // Regression tests for the deployed bot, with the last two runs (not part of undo history)
+  const [evalSuite, setEvalSuite] = useState<EvalSuite>(EMPTY_EVAL_SUITE);
+
+  // Search & tag filter over the pair list; pairs added or edited while filtering
+  // stay listed (keptVisible) until the filter changes, so they don't vanish mid-edit
+  const [search, setSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [keptVisible, setKeptVisible] = useState<string[]>([]);
+  // Multi-select and drag-and-drop (ids being dragged, and where they would land)
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [dragIds, setDragIds] = useState<string[] | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; after: boolean } | null>(null);
 
   // UI state
   const [importOpen, setImportOpen] = useState(false);
@@ -348,69 +2409,406 @@ export default function App() {
   const importTextAreaRef = useRef<HTMLTextAreaElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [selectedFileName, setSelectedFileName] = useState("");
-  const [backendOk, setBackendOk] = useState<null | boolean>(null);
+  const [columnMap, setColumnMap] = useState<ColumnMap | null>(null);
+  const [importPreview, setImportPreview] = useState<(ImportResult & { format: string }) | null>(null);
+  const [importError, setImportError] = useState("");
+  const [health, setHealth] = useState<BackendHealth>({ ok: null });
+  const [backendSettings, setBackendSettings] = useState(loadBackendSettings);
+  const [backendPanelOpen, setBackendPanelOpen] = useState(false);
+  const backendTargets = useMemo(() => [...BUILTIN_TARGETS, ...backendSettings.custom], [backendSettings.custom]);
+  const activeBackend = backendTargets.find(t => t.id === backendSettings.activeId) ?? backendTargets[0];
+  const urls = backendUrls(activeBackend.base);
+  const [exportOpen, setExportOpen] = useState(false);
+  // Set while the draft is a loaded deployed bot; updates are diffed against it
+  const [deployedBase, setDeployedBase] = useState<DeployedBaseline | null>(null);
+  const [deployBusy, setDeployBusy] = useState(false);
+  const [deployConflict, setDeployConflict] = useState(false);
 
   // submit banners
   const [submitState, setSubmitState] = useState<"idle" | "success" | "error">("idle");
   const [submitMessage, setSubmitMessage] = useState<string>("");
 
-  // Local persistence
+  // Undo/redo for meta and pairs (per draft, not persisted)
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+
+  // Call before changing meta or pairs so the change can be undone
+  function remember(label: string, group?: string) {
+    setHistory(h => recordHistory(h, { meta, pairs }, label, group));
+  }
+
+  function changeMeta(patch: Partial<BotMeta>, label: string) {
+    remember(label, `meta:${Object.keys(patch).join(",")}`);
+    setMeta(prev => ({ ...prev, ...patch }));
+  }
+
+  function restoreSnapshot(step: { history: History; restore: Snapshot } | null) {
+    if (!step) return;
+    setHistory(step.history);
+    setMeta(step.restore.meta);
+    setPairs(step.restore.pairs);
+  }
+
+  const undo = (steps = 1) => restoreSnapshot(undoHistory(history, { meta, pairs }, steps));
+  const redo = () => restoreSnapshot(redoHistory(history, { meta, pairs }));
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) outside the import modal and untracked fields
   useEffect(() => {
-    const saved = localStorage.getItem("umass-chatbot-builder");
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (parsed.meta) setMeta(parsed.meta);
-        if (parsed.pairs) setPairs(parsed.pairs);
-      } catch {
-        // ignore
+    function onKeyDown(e: KeyboardEvent) {
+      if (importOpen || !(e.ctrlKey || e.metaKey) || e.altKey || !historyTracks(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        restoreSnapshot(undoHistory(history, { meta, pairs }));
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        restoreSnapshot(redoHistory(history, { meta, pairs }));
       }
     }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [history, meta, pairs, importOpen]);
+
+  // Drafts: each workspace is one IndexedDB record; nothing is saved until one is loaded
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(null);
+  const [draftsBusy, setDraftsBusy] = useState(true);
+  const activeDraftName = drafts.find(d => d.id === activeDraftId)?.name ?? "";
+
+  function draftError(action: string, e: any) {
+    setSubmitState("error");
+    setSubmitMessage(`Could not ${action} draft. ${e?.message || e}`);
+  }
+
+  function applyDraft(d: Draft) {
+    setMeta(d.meta);
+    setPairs(d.pairs);
+    setHistory(EMPTY_HISTORY);
+    setSeparateGroups(d.separateGroups);
+    setAllowedFindings(d.allowedFindings);
+    setDeployedBase(d.deployed);
+    setTagRules(d.tagRules);
+    setDocuments(d.documents);
+    setEvalSuite(d.evals);
+    setDeployConflict(false);
+    setSearch("");
+    setTagFilter(null);
+    setKeptVisible([]);
+    setSelectedIds([]);
+    setActiveDraftId(d.id);
+    localStorage.setItem(ACTIVE_DRAFT_KEY, d.id);
+  }
+
+  function currentDraft(): Draft | null {
+    if (!activeDraftId) return null;
+    return {
+      id: activeDraftId,
+      name: activeDraftName,
+      updatedAt: new Date().toISOString(),
+      meta,
+      pairs,
+      separateGroups,
+      allowedFindings,
+      deployed: deployedBase,
+      tagRules,
+      documents,
+      evals: evalSuite,
+    };
+  }
+
+  useEffect(() => {
+    initDrafts()
+      .then(async list => {
+        setDrafts(list);
+        const wanted = localStorage.getItem(ACTIVE_DRAFT_KEY);
+        const d = await getDraft(list.some(x => x.id === wanted) ? wanted! : list[0].id);
+        if (d) applyDraft(d);
+      })
+      .catch(e => draftError("load", e))
+      .finally(() => setDraftsBusy(false));
   }, []);
 
+  // Debounced save of the active draft
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
   useEffect(() => {
-    localStorage.setItem("umass-chatbot-builder", JSON.stringify({ meta, pairs }));
-  }, [meta, pairs]);
+    if (!activeDraftId) return;
+    const draft: Draft = {
+      id: activeDraftId,
+      name: activeDraftName,
+      updatedAt: new Date().toISOString(),
+      meta,
+      pairs,
+      separateGroups,
+      allowedFindings,
+      deployed: deployedBase,
+      tagRules,
+      documents,
+      evals: evalSuite,
+    };
+    saveTimerRef.current = setTimeout(() => putDraft(draft).catch(e => draftError("save", e)), 300);
+    return () => clearTimeout(saveTimerRef.current);
+  }, [meta, pairs, separateGroups, allowedFindings, deployedBase, tagRules, documents, evalSuite, activeDraftId, activeDraftName]);
+
+  // Saves pending edits, runs a draft operation, then refreshes the list
+  async function withDrafts(action: string, run: () => Promise<Draft | undefined>) {
+    setDraftsBusy(true);
+    try {
+      const draft = currentDraft();
+      if (draft) await putDraft(draft);
+      const next = await run();
+      setDrafts(await listDrafts());
+      if (next) applyDraft(next);
+    } catch (e) {
+      draftError(action, e);
+    } finally {
+      setDraftsBusy(false);
+    }
+  }
+
+  function handleNewDraft() {
+    withDrafts("create", async () => {
+      const d = emptyDraft(uniqueDraftName("Untitled draft", drafts));
+      await putDraft(d);
+      return d;
+    });
+  }
+
+  function handleSwitchDraft(id: string) {
+    withDrafts("open", () => getDraft(id));
+  }
+
+  function handleRenameDraft(name: string) {
+    const d = currentDraft();
+    if (!d || name === d.name) return;
+    withDrafts("rename", async () => {
+      await putDraft({ ...d, name: uniqueDraftName(name, drafts.filter(x => x.id !== d.id)) });
+      return undefined;
+    });
+  }
+
+  function handleDuplicateDraft() {
+    const d = currentDraft();
+    if (!d) return;
+    withDrafts("duplicate", async () => {
+      // The copy is a fresh draft: it is not linked to the deployed bot
+      const copy: Draft = { ...d, id: uid(), name: uniqueDraftName(`${d.name} copy`, drafts), deployed: null };
+      await putDraft(copy);
+      return copy;
+    });
+  }
+
+  function handleDeleteDraft() {
+    const d = currentDraft();
+    if (!d || !confirm(`Delete the draft "${d.name}"? This cannot be undone.`)) return;
+    clearTimeout(saveTimerRef.current);
+    setDraftsBusy(true);
+    deleteDraft(d.id)
+      .then(async () => {
+        const rest = await listDrafts();
+        const next = rest.length ? await getDraft(rest[0].id) : emptyDraft("Untitled draft");
+        if (next && !rest.length) await putDraft(next);
+        setDrafts(rest.length ? rest : await listDrafts());
+        if (next) applyDraft(next);
+      })
+      .catch(e => draftError("delete", e))
+      .finally(() => setDraftsBusy(false));
+  }
 
-  // Backend health badge
   useEffect(() => {
-    fetch(HEALTH_URL, { cache: "no-store" })
-      .then(r => r.ok ? r.json() : Promise.reject(r.statusText))
-      .then(() => setBackendOk(true))
-      .catch(() => setBackendOk(false));
+    localStorage.setItem(BACKEND_STORAGE_KEY, JSON.stringify(backendSettings));
+  }, [backendSettings]);
+
+  // Owner sign-in: persisted, and marked expired when it lapses or the backend answers 401
+  const [session, setSession] = useState<Session | null>(loadSession);
+  const sessionRef = useRef(session);
+  useEffect(() => {
+    sessionRef.current = session;
+    if (session) localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    else localStorage.removeItem(SESSION_STORAGE_KEY);
+  }, [session]);
+  const verifiedEmail = session && !session.expired ? session.email : "";
+
+  const expireSession = useCallback(() => setSession(prev => (prev && !prev.expired ? { ...prev, expired: true } : prev)), []);
+
+  useEffect(() => {
+    if (!session || session.expired) return;
+    const timer = setTimeout(expireSession, Math.max(0, Date.parse(session.expiresAt) - SESSION_SKEW_MS - Date.now()));
+    return () => clearTimeout(timer);
+  }, [session, expireSession]);
+
+  // Every backend call goes through here, so each one carries the owner's token
+  const backendFetch = useCallback<typeof fetch>(async (input, init) => {
+    const current = sessionRef.current;
+    const token = current && !current.expired && !sessionExpired(current) ? current.token : undefined;
+    const headers = new Headers(init?.headers);
+    for (const [name, value] of Object.entries(bearerHeaders(token))) headers.set(name, value);
+    const res = await fetch(input, { ...init, headers });
+    if (res.status === 401 && token) expireSession();
+    return res;
+  }, [expireSession]);
+
+  function handleSignIn(next: AuthSession) {
+    setSession(next);
+    // Anything that waited for a sign-in goes out now
+    setOutbox(prev => expedite(prev, () => true));
+  }
+
+  // The owner is whoever signed in, whatever a draft or import says
+  useEffect(() => {
+    if (verifiedEmail && meta.ownerEmail !== verifiedEmail) setMeta(prev => ({ ...prev, ownerEmail: verifiedEmail }));
+  }, [verifiedEmail, meta.ownerEmail]);
+
+  // Submitted bots: persisted separately from the draft, polled while queued/building
+  const [submissions, setSubmissions] = useState<Submission[]>(loadSubmissions);
+  const submissionsRef = useRef(submissions);
+  useEffect(() => {
+    submissionsRef.current = submissions;
+    localStorage.setItem(SUBMISSIONS_STORAGE_KEY, JSON.stringify(submissions));
+  }, [submissions]);
+
+  const refreshSubmission = useCallback(async (id: string) => {
+    const current = submissionsRef.current.find(s => s.id === id);
+    if (!current) return;
+    const next = await fetchSubmissionStatus(current, backendFetch);
+    setSubmissions(prev => prev.map(s => (s.id === id ? next : s)));
+  }, [backendFetch]);
+
+  // Outbox: submissions waiting for the backend, persisted and retried with backoff
+  const [outbox, setOutbox] = useState<OutboxItem[]>(loadOutbox);
+  const outboxRef = useRef(outbox);
+  const outboxBusy = useRef(false);
+  useEffect(() => {
+    outboxRef.current = outbox;
+    localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+  }, [outbox]);
+
+  // Sends due items one at a time; each success becomes a tracked submission. Waits while signed out.
+  const flushOutbox = useCallback(async () => {
+    const current = sessionRef.current;
+    if (outboxBusy.current || !navigator.onLine || !current || current.expired) return;
+    outboxBusy.current = true;
+    try {
+      for (const item of outboxRef.current.filter(o => isDue(o))) {
+        try {
+          const data = await submitPayload(item.backend, item.payload, { idempotencyKey: item.id, fetchImpl: backendFetch });
+          const submission = submissionFromResponse(data, item.payload, item.backend);
+          setOutbox(prev => prev.filter(o => o.id !== item.id));
+          setSubmissions(prev => [submission, ...prev.filter(s => s.id !== submission.id)]);
+        } catch (e: any) {
+          // A 401 means the session ran out; the item waits for the next sign-in rather than failing
+          const retryable = isRetryableError(e) || e?.status === 401;
+          setOutbox(prev => prev.map(o => (o.id === item.id ? afterFailedAttempt(o, `${e?.message || e}`, retryable) : o)));
+        }
+      }
+    } finally {
+      outboxBusy.current = false;
+    }
+  }, [backendFetch]);
+
+  // Wake up when the earliest waiting item is due; every outbox change re-plans
+  useEffect(() => {
+    const next = Math.min(...outbox.filter(o => !o.failed).map(o => Date.parse(o.nextAttemptAt)));
+    if (!Number.isFinite(next)) return;
+    const timer = setTimeout(flushOutbox, Math.max(0, next - Date.now()));
+    return () => clearTimeout(timer);
+  }, [outbox, flushOutbox]);
+
+  useEffect(() => {
+    const onOnline = () => setOutbox(prev => expedite(prev, () => true));
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
   }, []);
 
-  // Derived (slug kept for payload only; not shown in UI)
-  const slug = useMemo(() => {
-    const labSlug = slugify(meta.lab || "lab");
-    const botSlug = slugify(meta.botName || "bot");
-    return `${labSlug}-${botSlug}`;
-  }, [meta.lab, meta.botName]);
-
-  const exportPayload: ExportPayload = useMemo(() => {
-    const safePairs = Array.isArray(pairs) ? pairs : [];
-    const payload: ExportPayload = {
-      bot: {
-        name: meta?.botName?.trim() || "Untitled Bot",
-        lab: meta?.lab?.trim() || "",
-        owner_email: meta?.ownerEmail?.trim() || "",
-        description: meta?.description?.trim() || undefined,
-        slug,
-        model: meta?.baseModel || "qwen2.5:7b-instruct",
-        embed_model: meta?.embedModel || "nomic-embed-text",
-        temperature: typeof meta?.temperature === "number" ? meta.temperature : 0.2,
-        top_p: typeof meta?.topP === "number" ? meta.topP : 0.95,
-      },
-      pairs: safePairs.map(({ q, a, tags }) => ({
-        q: (q || "").trim(),
-        a: (a || "").trim(),
-        tags: tags && tags.length ? tags : undefined,
-      })),
-      created_at: new Date().toISOString(),
-      version: "2025-09-16",
-    };
-    return payload;
-  }, [meta, pairs, slug]);
+  const pendingSubmissionIds = submissions.filter(isPending).map(s => s.id).join(",");
+  useEffect(() => {
+    if (!pendingSubmissionIds) return;
+    const tick = () => pendingSubmissionIds.split(",").forEach(id => refreshSubmission(id));
+    tick();
+    const timer = setInterval(tick, SUBMISSION_POLL_MS);
+    return () => clearInterval(timer);
+  }, [pendingSubmissionIds, refreshSubmission]);
+
+  // Model catalog for the advanced settings (falls back to the defaults)
+  const [modelCatalog, setModelCatalog] = useState<{ models: ModelInfo[]; source: "backend" | "fallback" | "loading" }>({
+    models: FALLBACK_MODELS,
+    source: "loading",
+  });
+  useEffect(() => {
+    let cancelled = false;
+    backendFetch(urls.models, { cache: "no-store" })
+      .then(r => r.ok ? r.json() : Promise.reject(r.statusText))
+      .then(data => {
+        const models = parseModelCatalog(data);
+        if (!models.length) throw new Error("empty catalog");
+        if (!cancelled) setModelCatalog({ models, source: "backend" });
+      })
+      .catch(() => { if (!cancelled) setModelCatalog({ models: FALLBACK_MODELS, source: "fallback" }); });
+    return () => { cancelled = true; };
+  }, [urls.models, backendFetch]);
+
+  // Backend health badge (polled, and re-checked at once when the active target changes)
+  useEffect(() => {
+    let cancelled = false;
+    setHealth({ ok: null });
+    async function check() {
+      const started = performance.now();
+      let next: BackendHealth;
+      try {
+        const res = await backendFetch(urls.health, { cache: "no-store" });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        await res.json();
+        next = { ok: true, latencyMs: Math.round(performance.now() - started), checkedAt: new Date().toISOString() };
+      } catch (e: any) {
+        next = { ok: false, checkedAt: new Date().toISOString(), error: `${e?.message || e}` };
+      }
+      if (!cancelled) setHealth(next);
+    }
+    check();
+    const timer = setInterval(check, HEALTH_POLL_MS);
+    return () => { cancelled = true; clearInterval(timer); };
+  }, [urls.health, backendFetch]);
+
+  // A backend that just became reachable gets its waiting submissions right away
+  useEffect(() => {
+    if (health.ok) setOutbox(prev => expedite(prev, o => o.backend === activeBackend.base));
+  }, [health.ok, activeBackend.base]);
+
+  // Derived (slug kept for payload only; not shown in UI). A loaded bot keeps its deployed slug.
+  const slug = useMemo(
+    () => deployedBase?.slug ?? botSlug({ lab: meta.lab, botName: meta.botName }),
+    [meta.lab, meta.botName, deployedBase]
+  );
+
+  // Rows with neither question nor answer are editor placeholders and never exported
+  const filledPairs = useMemo(() => (Array.isArray(pairs) ? pairs : []).filter(isFilledPair), [pairs]);
+
+  // Chunked once per document change rather than on every keystroke in the pairs
+  const payloadDocuments = useMemo(() => documents.map(toPayloadDocument), [documents]);
+  const exportPayload: ExportPayload = useMemo(
+    () => buildPayload(meta, filledPairs, slug, undefined, payloadDocuments),
+    [meta, filledPairs, slug, payloadDocuments]
+  );
+
+  // Import modal: which importer would run, and the header row for delimited files
+  const importFormat = useMemo(
+    () => (importOpen ? detectImporters(importText, selectedFileName)[0] : undefined),
+    [importOpen, importText, selectedFileName]
+  );
+  const importHeader = useMemo(() => {
+    if (!importFormat || (importFormat.id !== "csv" && importFormat.id !== "tsv")) return null;
+    const firstRow = parseCsv(importText, importFormat.id === "tsv" ? "\t" : ",")[0];
+    return firstRow ? firstRow.map(h => h.trim()) : null;
+  }, [importFormat, importText]);
+  const effectiveColumns = columnMap ?? (importHeader ? guessColumnMap(importHeader) : null);
+
+  // Privacy scan
+  const findings = useMemo(() => scanDraft(meta, pairs), [meta, pairs]);
+  const allowed = useMemo(() => new Set(allowedFindings), [allowedFindings]);
+  const blockingFindings = findings.filter(f => f.severity === "high" && !allowed.has(f.key));
+  const findingsFor = (pairId: string | undefined, field: ScanField) =>
+    findings.filter(f => f.pairId === pairId && f.field === field);
+  function toggleAllowed(key: string) {
+    setAllowedFindings(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  }
 
   const isValid = useMemo(() => {
     const hasMeta = validateMeta(meta);
@@ -418,106 +2816,368 @@ export default function App() {
     return Boolean(hasMeta && hasPairs);
   }, [meta, pairs]);
 
+  // Pending edits relative to the loaded deployed bot
+  const deployedChanges = useMemo(() => (deployedBase ? diffPairs(deployedBase.pairs, pairs) : null), [deployedBase, pairs]);
+  const deployedBotChanged = deployedBase ? !sameBot(deployedBase.bot, exportPayload.bot) : false;
+  const deployedDocumentsChanged = deployedBase ? !sameDocuments(deployedBase.documents, payloadDocuments) : false;
+
+  // Malformed links per answer; they block sending like high-severity privacy findings
+  const linkIssues = useMemo(() => new Map(pairs.map(p => [p.id, checkLinks(p.a || "")])), [pairs]);
+  const brokenLinkCount = Array.from(linkIssues.values()).reduce((n, l) => n + l.length, 0);
+  const markdownAnswers = (meta.answerFormat ?? "markdown") === "markdown";
+
+  // Filtered view of the pairs; `index` keeps the #n label of the full list
+  const searchWords = useMemo(() => searchTerms(search), [search]);
+  const filtering = searchWords.length > 0 || tagFilter !== null;
+  const visiblePairs = useMemo(() => {
+    const shown = new Set(filterPairs(pairs, search, tagFilter));
+    const kept = new Set(keptVisible);
+    return pairs.map((pair, index) => ({ pair, index })).filter(r => shown.has(r.index) || kept.has(r.pair.id));
+  }, [pairs, search, tagFilter, keptVisible]);
+  const facets = useMemo(() => tagFacets(pairs), [pairs]);
+  const knownTags = useMemo(() => facets.map(f => f.tag).filter(t => t !== UNTAGGED), [facets]);
+
+  // Languages: detected once per edit and shared by the pair cards and the coverage view.
+  // Blank rows count only once a language is picked for them (e.g. an added translation).
+  const coverage = useMemo(() => translationCoverage(pairs.filter(p => isFilledPair(p) || p.lang)), [pairs]);
+  const pairLangs = useMemo(() => new Map(coverage.rows.flatMap(r => r.members.map(m => [m.pair.id, m.lang] as const))), [coverage]);
+  // Selected pairs that still exist (deletes and undo can remove them)
+  const selection = useMemo(() => {
+    const ids = new Set(selectedIds);
+    return new Set(pairs.filter(p => ids.has(p.id)).map(p => p.id));
+  }, [pairs, selectedIds]);
+  const allShownSelected = visiblePairs.length > 0 && visiblePairs.every(r => selection.has(r.pair.id));
+  function changeSearch(value: string) {
+    setSearch(value);
+    setKeptVisible([]);
+  }
+  function changeTagFilter(tag: string | null) {
+    setTagFilter(tag);
+    setKeptVisible([]);
+  }
+
+  // Schema check of exactly what would be sent; pair paths also name the editor's #n label
+  const payloadIssues = useMemo(() => validatePayload(exportPayload), [exportPayload]);
+  function describeIssue(issue: SchemaIssue) {
+    const m = /^pairs\[(\d+)\]/.exec(issue.path);
+    const row = m ? filledPairs[Number(m[1])] : undefined;
+    if (row) return `${formatIssue(issue)} (pair #${pairs.indexOf(row) + 1})`;
+    const d = /^documents\[(\d+)\]/.exec(issue.path);
+    const doc = d ? documents[Number(d[1])] : undefined;
+    return doc ? `${formatIssue(issue)} (${doc.name})` : formatIssue(issue);
+  }
+
+  // Shared by submit and update: returns the banner message when sending is not allowed
+  function sendBlocker(): string | null {
+    if (session?.expired) return `Your session as ${session.email} has expired. Sign in again to send.`;
+    if (!session) return "Sign in with your email before submitting, so the bot is registered to you.";
+    if (!isValid) return "Please complete Lab, Bot name, Owner email, and at least one Q/A pair.";
+    if (payloadIssues.length) {
+      const shown = payloadIssues.slice(0, 3).map(describeIssue).join("; ");
+      return `The payload does not pass validation: ${shown}${payloadIssues.length > 3 ? ` (+${payloadIssues.length - 3} more)` : ""}.`;
+    }
+    if (blockingFindings.length) {
+      return `Resolve or allow ${blockingFindings.length} high-severity privacy finding${blockingFindings.length === 1 ? "" : "s"} before submitting.`;
+    }
+    if (brokenLinkCount) {
+      const first = pairs.findIndex(p => linkIssues.get(p.id)?.length);
+      return `Fix ${brokenLinkCount} malformed link${brokenLinkCount === 1 ? "" : "s"} before submitting (first in pair #${first + 1}).`;
+    }
+    return null;
+  }
+
   // Handlers
   function updatePair(id: string, patch: Partial<QAPair>) {
+    remember(pairEditLabel(patch, pairs.findIndex(p => p.id === id)), `${id}:${Object.keys(patch).join(",")}`);
+    if (filtering && !keptVisible.includes(id)) setKeptVisible(prev => [...prev, id]);
     setPairs(prev => prev.map(p => (p.id === id ? { ...p, ...patch } : p)));
   }
   function addPair() {
-    setPairs(prev => [...prev, { id: uid(), q: "", a: "", tags: [] }]);
+    remember("Add pair");
+    const id = uid();
+    if (filtering) setKeptVisible(prev => [...prev, id]);
+    setPairs(prev => [...prev, { id, q: "", a: "", tags: tagFilter ? [tagFilter] : [] }]);
+  }
+  // A blank pair in `lang`, linked to the given pair and placed after its other translations
+  function addTranslation(pairId: string, lang: string) {
+    remember(`Add ${languageName(lang)} translation`);
+    const id = uid();
+    if (filtering) setKeptVisible(prev => [...prev, id]);
+    setPairs(prev => {
+      const source = prev.find(p => p.id === pairId);
+      if (!source) return prev;
+      const group = source.group ?? uid();
+      const linked = prev.map(p => (p.id === pairId ? { ...p, group } : p));
+      const at = linked.map(p => p.group).lastIndexOf(group) + 1;
+      return [...linked.slice(0, at), { id, q: "", a: "", tags: [...(source.tags ?? [])], lang, group }, ...linked.slice(at)];
+    });
   }
   function removePair(id: string) {
+    remember(`Remove pair #${pairs.findIndex(p => p.id === id) + 1}`);
     setPairs(prev => (prev.length <= 1 ? prev : prev.filter(p => p.id !== id)));
   }
+  // Moves past the neighbour in the filtered view, leaving hidden pairs where they are
+  function movePairs(ids: Set<string>, dir: -1 | 1) {
+    remember(`Move ${pairsLabel(ids)} ${dir < 0 ? "up" : "down"}`);
+    const visible = new Set(visiblePairs.map(r => r.pair.id));
+    setPairs(prev => movePairsAmong(prev, ids, dir, visible));
+  }
   function movePair(id: string, dir: -1 | 1) {
-    setPairs(prev => {
-      const idx = prev.findIndex(p => p.id === id);
-      if (idx < 0) return prev;
-      const target = idx + dir;
-      if (target < 0 || target >= prev.length) return prev;
-      const clone = [...prev];
-      const [item] = clone.splice(idx, 1);
-      clone.splice(target, 0, item);
-      return clone;
-    });
+    movePairs(new Set([id]), dir);
+  }
+  function pairsLabel(ids: Set<string>) {
+    return ids.size === 1 ? `pair #${pairs.findIndex(p => ids.has(p.id)) + 1}` : `${ids.size} pairs`;
+  }
+
+  // Bulk actions on the selection
+  function toggleSelected(id: string) {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  }
+  function toggleShownSelected() {
+    const shown = visiblePairs.map(r => r.pair.id);
+    setSelectedIds(prev => (allShownSelected ? prev.filter(id => !shown.includes(id)) : Array.from(new Set([...prev, ...shown]))));
+  }
+  function bulkEdit(label: string, edit: (prev: QAPair[]) => QAPair[]) {
+    if (!selection.size) return;
+    remember(label);
+    setPairs(edit);
+  }
+  // Rename, merge (rename onto an existing tag) or remove (rename to "") across all pairs
+  function retagEverywhere(from: string[], to: string, label: string) {
+    remember(label);
+    setPairs(prev => renameTags(prev, from, to));
+    if (tagFilter !== null && from.includes(tagFilter)) changeTagFilter(to || null);
+  }
+  function handleBulkDelete() {
+    if (!confirm(`Delete ${pairsLabel(selection)}? Use Undo to bring them back.`)) return;
+    bulkEdit(`Delete ${pairsLabel(selection)}`, prev => removePairs(prev, selection, uid));
+    setSelectedIds([]);
+  }
+
+  // Drag-and-drop: dragging a selected pair carries the whole selection along.
+  // The drag handle also takes ↑/↓ so the same moves work from the keyboard.
+  function movingSet(id: string) {
+    return selection.has(id) ? selection : new Set([id]);
+  }
+  function handleDragStart(e: React.DragEvent<HTMLElement>, id: string) {
+    setDragIds(Array.from(movingSet(id)));
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", id);
+    const card = e.currentTarget.closest<HTMLElement>("[data-pair-card]");
+    if (card) e.dataTransfer.setDragImage(card, 16, 16);
+  }
+  function handleDragOver(e: React.DragEvent<HTMLElement>, id: string) {
+    if (!dragIds) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const after = e.clientY > rect.top + rect.height / 2;
+    setDropTarget(prev => (prev?.id === id && prev.after === after ? prev : { id, after }));
+  }
+  function handleDrop(e: React.DragEvent<HTMLElement>) {
+    e.preventDefault();
+    if (dragIds && dropTarget && !dragIds.includes(dropTarget.id)) {
+      const ids = new Set(dragIds);
+      remember(`Drag ${pairsLabel(ids)}`);
+      setPairs(prev => dropPairs(prev, ids, dropTarget.id, dropTarget.after));
+    }
+    handleDragEnd();
+  }
+  function handleDragEnd() {
+    setDragIds(null);
+    setDropTarget(null);
+  }
+  function handleHandleKey(e: React.KeyboardEvent<HTMLElement>, id: string) {
+    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+    e.preventDefault();
+    movePairs(movingSet(id), e.key === "ArrowUp" ? -1 : 1);
+    // The handle's card may be re-inserted in the DOM, which drops focus
+    requestAnimationFrame(() => document.querySelector<HTMLElement>(`[data-drag-handle="${id}"]`)?.focus());
   }
 
   async function handleSubmit() {
-    if (!isValid) {
+    const blocker = sendBlocker();
+    if (blocker) {
       setSubmitState("error");
-      setSubmitMessage("Please complete Lab, Bot name, Owner email, and at least one Q/A pair.");
+      setSubmitMessage(blocker);
       return;
     }
+    // Generated before the first attempt so outbox retries reuse it
+    const key = idempotencyKey();
     try {
       setSubmitState("idle");
       setSubmitMessage("");
-      const res = await fetch(SUBMIT_URL, {
-        method: "POST",
+      const data = await submitPayload(activeBackend.base, exportPayload, { idempotencyKey: key, fetchImpl: backendFetch });
+      const submission = submissionFromResponse(data, exportPayload, activeBackend.base);
+      setSubmissions(prev => [submission, ...prev.filter(s => s.id !== submission.id)]);
+
+      setSubmitState("success");
+      setSubmitMessage("Request submitted successfully — please allow 1 business day for your customized chatbot to be deployed! Track it under My submissions.");
+    } catch (e: any) {
+      setSubmitState("error");
+      if (e?.status === 401) {
+        setOutbox(prev => [...prev, queueSubmission(exportPayload, activeBackend.base, key, `${e?.message || e}`)]);
+        setSubmitMessage("Your session has expired. The request was saved to the Outbox and will be sent once you sign in again.");
+      } else if (isRetryableError(e)) {
+        setOutbox(prev => [...prev, queueSubmission(exportPayload, activeBackend.base, key, `${e?.message || e}`)]);
+        setSubmitMessage(`The backend could not take the request right now (${e?.message || e}). It was saved to the Outbox and will be sent automatically.`);
+      } else {
+        setSubmitMessage(`Submission failed. ${e?.message || e}`);
+      }
+    }
+  }
+
+  async function handleLoadDeployed(botSlug: string) {
+    if (!botSlug) return;
+    const draftHasContent = documents.length > 0 || pairs.some(p => (p.q || "").trim() || (p.a || "").trim());
+    if (draftHasContent && !confirm(`Replace the current draft with the deployed bot "${botSlug}"? Unsent edits will be lost.`)) return;
+    const backend = deployedBase?.slug === botSlug ? deployedBase.backend : activeBackend.base;
+    setDeployBusy(true);
+    try {
+      const res = await backendFetch(`${backend}/chatbots/${encodeURIComponent(botSlug)}`, { cache: "no-store" });
+      if (res.status === 404) throw new Error(`No deployed bot "${botSlug}" on ${backend}.`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const { baseline, metaPatch, pairs: loaded, documents: loadedDocuments } = parseDeployedBot(await res.json(), backend);
+      remember(`Load ${baseline.slug}`);
+      setMeta(prev => ({ ...prev, ...metaPatch }));
+      setPairs(loaded.length ? loaded : [{ id: uid(), q: "", a: "", tags: [] }]);
+      setDocuments(loadedDocuments);
+      setDeployedBase(baseline);
+      setDeployConflict(false);
+      setSubmitState("success");
+      setSubmitMessage(`Loaded ${baseline.slug} (version ${baseline.versionId}). Edits can now be sent as an update.`);
+    } catch (e: any) {
+      setSubmitState("error");
+      setSubmitMessage(`Could not load bot. ${e?.message || e}`);
+    } finally {
+      setDeployBusy(false);
+    }
+  }
+
+  async function handleSendUpdate() {
+    if (!deployedBase) return;
+    const blocker = sendBlocker();
+    if (blocker) {
+      setSubmitState("error");
+      setSubmitMessage(blocker);
+      return;
+    }
+    const request = buildUpdateRequest(deployedBase, exportPayload, pairs);
+    if (isEmptyUpdate(deployedBase, request)) {
+      setSubmitState("success");
+      setSubmitMessage("Nothing to update — the draft matches the deployed version.");
+      return;
+    }
+    setDeployBusy(true);
+    try {
+      const res = await backendFetch(`${deployedBase.backend}/chatbots/${encodeURIComponent(deployedBase.slug)}`, {
+        method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(exportPayload),
+        body: JSON.stringify(request),
       });
-
+      if (res.status === 409) {
+        const data = await res.json().catch(() => ({}));
+        setDeployConflict(true);
+        throw new Error(`The bot is now at version ${data?.current_version ?? "unknown"}, but your edits are based on ${deployedBase.versionId}.`);
+      }
+      if (res.status === 401) throw new Error("Your session has expired. Sign in again, then send the update.");
       if (!res.ok) {
         const text = await res.text().catch(() => "");
         throw new Error(`HTTP ${res.status}${text ? ` — ${text.slice(0, 200)}` : ""}`);
       }
 
-      // optional: consume response (file name, etc.), but message is fixed per your request
-      await res.json().catch(() => ({}));
+      const data = await res.json().catch(() => ({}));
+      const sent = pairs
+        .filter(p => (p.q || "").trim() || (p.a || "").trim())
+        .map(p => ({ id: p.id, ...toPayloadPair(p) }));
+      setDeployedBase({
+        ...deployedBase,
+        versionId: coerceStr(data?.version_id) || deployedBase.versionId,
+        bot: request.bot,
+        pairs: sent,
+        documents: request.documents ?? deployedBase.documents,
+      });
+      setDeployConflict(false);
+      const submission = submissionFromResponse(data, { ...exportPayload, bot: request.bot }, deployedBase.backend);
+      setSubmissions(prev => [submission, ...prev.filter(s => s.id !== submission.id)]);
 
       setSubmitState("success");
-      setSubmitMessage("Request submitted successfully — please allow 1 business day for your customized chatbot to be deployed!");
+      setSubmitMessage(`Update sent for ${deployedBase.slug} (${countChanges(request.changes)} pair change${countChanges(request.changes) === 1 ? "" : "s"}). Track it under My submissions.`);
     } catch (e: any) {
       setSubmitState("error");
-      setSubmitMessage(`Submission failed. ${e?.message || e}`);
+      setSubmitMessage(`Update failed. ${e?.message || e}`);
+    } finally {
+      setDeployBusy(false);
     }
   }
 
-  function handleImportJSON() {
+  function handlePreviewImport() {
     try {
-      // Strip common trailing commas (e.g., after last element in an array/object)
-      const sanitized = importText.replace(/,\s*([\]}])/g, "$1");
-
-      const { metaPatch, pairs: incoming } = parseAnyQAPairs(sanitized);
-
-      if (metaPatch) {
-        setMeta(prev => ({
-          ...prev,
-          lab: metaPatch.lab ?? prev.lab,
-          botName: metaPatch.botName ?? prev.botName,
-          ownerEmail: metaPatch.ownerEmail ?? prev.ownerEmail,
-          description: metaPatch.description ?? prev.description,
-          baseModel: metaPatch.baseModel ?? prev.baseModel,
-          embedModel: metaPatch.embedModel ?? prev.embedModel,
-          temperature: metaPatch.temperature ?? prev.temperature,
-          topP: metaPatch.topP ?? prev.topP,
-        }));
-      }
-
-      setPairs(incoming.map(p => ({ id: uid(), q: p.q, a: p.a, tags: p.tags ?? [] })));
-      setImportOpen(false);
+      setImportPreview(parseAnyQAPairs(importText, {
+        fileName: selectedFileName,
+        columns: columnMap ?? undefined,
+      }));
+      setImportError("");
     } catch (e: any) {
-      setSubmitState("error");
-      setSubmitMessage("Could not import JSON: " + (e?.message || String(e)));
+      setImportError("Could not import: " + (e?.message || String(e)));
     }
   }
 
+  function handleCommitImport(next: QAPair[], metaPatch?: Partial<BotMeta>, restoredDocuments?: RefDocument[]) {
+    remember(`Import (${next.length} pair${next.length === 1 ? "" : "s"})`);
+    if (metaPatch) {
+      setMeta(prev => ({
+        ...prev,
+        lab: metaPatch.lab ?? prev.lab,
+        botName: metaPatch.botName ?? prev.botName,
+        ownerEmail: metaPatch.ownerEmail ?? prev.ownerEmail,
+        description: metaPatch.description ?? prev.description,
+        baseModel: metaPatch.baseModel ?? prev.baseModel,
+        embedModel: metaPatch.embedModel ?? prev.embedModel,
+        temperature: metaPatch.temperature ?? prev.temperature,
+        topP: metaPatch.topP ?? prev.topP,
+        systemPrompt: metaPatch.systemPrompt ?? prev.systemPrompt,
+        greeting: metaPatch.greeting ?? prev.greeting,
+        fallbackMessage: metaPatch.fallbackMessage ?? prev.fallbackMessage,
+        escalationContact: metaPatch.escalationContact ?? prev.escalationContact,
+        refusedTopics: metaPatch.refusedTopics ?? prev.refusedTopics,
+        answerFormat: metaPatch.answerFormat ?? prev.answerFormat,
+      }));
+    }
+
+    if (restoredDocuments) setDocuments(restoredDocuments);
+
+    setPairs(next.length ? next : [{ id: uid(), q: "", a: "", tags: [] }]);
+    closeImport();
+  }
+
+  function closeImport() {
+    setImportOpen(false);
+    setImportPreview(null);
+    setImportError("");
+  }
+
+  function handleExport(format: ExportFormat) {
+    const { ext, mime } = EXPORT_FORMATS[format];
+    downloadText(`${slug}.${ext}`, serializePayload(exportPayload, format), mime);
+    setExportOpen(false);
+  }
+
   function handleReset() {
-    if (!confirm("Clear all fields? This cannot be undone.")) return;
-    localStorage.removeItem("umass-chatbot-builder");
-    setMeta({
-      lab: "",
-      botName: "",
-      ownerEmail: "",
-      description: "",
-      baseModel: "qwen2.5:7b-instruct",
-      embedModel: "nomic-embed-text",
-      temperature: 0.2,
-      topP: 0.95,
-    });
+    if (!confirm(`Clear all fields in "${activeDraftName || "this draft"}"? Other drafts are kept. Undo brings back the details and pairs, but not the tag rules, documents or regression tests.`)) return;
+    remember("Reset");
+    setMeta(emptyMeta());
     setPairs([{ id: uid(), q: "", a: "", tags: [] }]);
+    setSeparateGroups([]);
+    setAllowedFindings([]);
+    setTagRules(DEFAULT_TAG_RULES);
+    setDocuments([]);
+    setEvalSuite(EMPTY_EVAL_SUITE);
+    setDeployedBase(null);
+    setDeployConflict(false);
     setImportText("{}");
-    setImportOpen(false);
+    closeImport();
     setSelectedFileName("");
+    setColumnMap(null);
     if (fileInputRef.current) fileInputRef.current.value = "";
     setSubmitState("idle");
     setSubmitMessage("");
@@ -527,6 +3187,9 @@ export default function App() {
     const file = e.target.files?.[0];
     if (!file) return;
     setSelectedFileName(file.name);
+    setColumnMap(null);
+    setImportPreview(null);
+    setImportError("");
     const reader = new FileReader();
     reader.onload = () => {
       setImportText(String(reader.result || ""));
@@ -547,19 +3210,69 @@ export default function App() {
               <h1 className="text-2xl font-bold tracking-tight">UMass Lab Chatbot Builder</h1>
               <p className="text-sm text-gray-600">Create RAG-ready Q&A datasets for lab/professor chatbots.</p>
             </div>
-            {backendOk === null ? (
-              <span className="text-xs text-gray-500">checking backend…</span>
-            ) : backendOk ? (
-              <span className="text-xs rounded bg-green-100 text-green-700 px-2 py-0.5">backend: OK</span>
-            ) : (
-              <span className="text-xs rounded bg-rose-100 text-rose-700 px-2 py-0.5">backend: unreachable</span>
-            )}
+            <button onClick={() => setBackendPanelOpen(o => !o)} title={`${activeBackend.base} — click to change backend`}>
+              {health.ok === null ? (
+                <span className="text-xs text-gray-500">checking {activeBackend.name} backend…</span>
+              ) : health.ok ? (
+                <span className="text-xs rounded bg-green-100 text-green-700 px-2 py-0.5">
+                  backend ({activeBackend.name}): OK · {health.latencyMs} ms · {formatClock(health.checkedAt)}
+                </span>
+              ) : (
+                <span className="text-xs rounded bg-rose-100 text-rose-700 px-2 py-0.5" title={health.error}>
+                  backend ({activeBackend.name}): unreachable · {formatClock(health.checkedAt)}
+                </span>
+              )}
+            </button>
           </div>
           <div className="flex flex-wrap items-center gap-2">
+            <DraftSwitcher
+              drafts={drafts}
+              activeId={activeDraftId}
+              disabled={draftsBusy}
+              onSwitch={handleSwitchDraft}
+              onNew={handleNewDraft}
+              onRename={handleRenameDraft}
+              onDuplicate={handleDuplicateDraft}
+              onDelete={handleDeleteDraft}
+            />
+            <HistoryMenu history={history} onUndo={undo} onRedo={redo} />
+            <div className="relative">
+              <Button variant="secondary" onClick={() => setExportOpen(o => !o)} aria-haspopup="menu" aria-expanded={exportOpen}>
+                Export ▾
+              </Button>
+              {exportOpen && (
+                <div role="menu" className="absolute right-0 z-40 mt-1 w-56 rounded-xl border border-gray-200 bg-white p-1 shadow-lg">
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+                    <button
+                      key={f}
+                      role="menuitem"
+                      className="block w-full rounded-lg px-3 py-2 text-left text-sm hover:bg-gray-100"
+                      onClick={() => handleExport(f)}
+                    >
+                      {EXPORT_FORMATS[f].label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <Button variant="danger" onClick={handleReset}>Reset</Button>
           </div>
         </div>
 
+        {backendPanelOpen && (
+          <BackendSettings
+            targets={backendTargets}
+            activeId={activeBackend.id}
+            onSelect={(id) => setBackendSettings(s => ({ ...s, activeId: id }))}
+            onAdd={(t) => setBackendSettings(s => ({ custom: [...s.custom, t], activeId: t.id }))}
+            onRemove={(id) => setBackendSettings(s => ({
+              custom: s.custom.filter(t => t.id !== id),
+              activeId: s.activeId === id ? "prod" : s.activeId,
+            }))}
+            onClose={() => setBackendPanelOpen(false)}
+          />
+        )}
+
         {/* Status banner */}
         {submitState !== "idle" && submitMessage && (
           <div
@@ -579,89 +3292,354 @@ export default function App() {
         <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
           {/* Left column: Meta & Submit */}
           <div className="lg:col-span-1 space-y-6">
+            <SignInCard session={session} issuer={AUTH_ISSUER} onSignIn={handleSignIn} onSignOut={() => setSession(null)} />
+
             <Card>
               <SectionHeading title="Submit your chatbot" subtitle="Enter details and submit when ready." />
-              <div className="space-y-4">
+              <div className="space-y-4" data-undo-history>
                 <div>
                   <Label htmlFor="lab">Lab / Group</Label>
-                  <Input id="lab" placeholder="e.g., IALS — Light Microscopy Lab" value={meta.lab} onChange={(e) => setMeta({ ...meta, lab: e.target.value })} />
+                  <Input id="lab" placeholder="e.g., IALS — Light Microscopy Lab" value={meta.lab} onChange={(e) => changeMeta({ lab: e.target.value }, "Edit lab")} />
                 </div>
                 <div>
                   <Label htmlFor="botName">Bot name</Label>
-                  <Input id="botName" placeholder="e.g., Microscope Helper" value={meta.botName} onChange={(e) => setMeta({ ...meta, botName: e.target.value })} />
+                  <Input id="botName" placeholder="e.g., Microscope Helper" value={meta.botName} onChange={(e) => changeMeta({ botName: e.target.value }, "Edit bot name")} />
                 </div>
                 <div>
                   <Label htmlFor="email">Owner email</Label>
-                  <Input id="email" type="email" placeholder="name@umass.edu" value={meta.ownerEmail} onChange={(e) => setMeta({ ...meta, ownerEmail: e.target.value })} />
+                  <Input id="email" type="email" placeholder="Filled in when you sign in" value={meta.ownerEmail} readOnly className="bg-gray-50" />
+                  <Tiny>{verifiedEmail ? "Verified by your sign-in." : "Sign in above to set the owner."}</Tiny>
                 </div>
                 <div>
                   <Label htmlFor="desc">Short description</Label>
-                  <Textarea id="desc" placeholder="What should users ask this bot?" value={meta.description} onChange={(e) => setMeta({ ...meta, description: e.target.value })} />
+                  <HighlightTextarea
+                    id="desc"
+                    placeholder="What should users ask this bot?"
+                    value={meta.description}
+                    onChange={(e) => changeMeta({ description: e.target.value }, "Edit description")}
+                    findings={findingsFor(undefined, "description")}
+                    allowed={allowed}
+                  />
+                  <FindingList findings={findingsFor(undefined, "description")} allowed={allowed} onToggle={toggleAllowed} />
                 </div>
+                {findings.length > 0 && (
+                  <div className={classNames("text-xs", blockingFindings.length ? "text-rose-700" : "text-gray-500")}>
+                    Privacy scan: {findings.length} finding{findings.length === 1 ? "" : "s"}
+                    {blockingFindings.length ? `, ${blockingFindings.length} high-severity blocking submission` : ", none blocking"}.
+                  </div>
+                )}
                 <div className="flex items-center gap-2">
-                  <Button onClick={handleSubmit} disabled={!isValid} title={isValid ? "Submit" : "Fill required fields & at least one Q/A"}>
+                  <Button
+                    onClick={handleSubmit}
+                    disabled={!verifiedEmail || !isValid || blockingFindings.length > 0}
+                    title={!verifiedEmail ? "Sign in first" : !isValid ? "Fill required fields & at least one Q/A" : blockingFindings.length ? "Resolve high-severity privacy findings" : "Submit"}
+                  >
                     Submit
                   </Button>
                 </div>
               </div>
             </Card>
 
+            <BehaviorSettings meta={meta} onChange={changeMeta} />
+
+            <AdvancedSettings meta={meta} catalog={modelCatalog.models} catalogSource={modelCatalog.source} onChange={changeMeta} />
+
+            <TagManager
+              facets={facets}
+              rules={tagRules}
+              onRules={setTagRules}
+              onRetag={retagEverywhere}
+              onNormalize={() => {
+                remember("Normalize tags");
+                setPairs(prev => normalizeAllTags(prev, tagRules));
+                changeTagFilter(null);
+              }}
+              onShow={(tag) => changeTagFilter(tag)}
+            />
+
+            <OutboxPanel
+              outbox={outbox}
+              onRetry={(id) => setOutbox(prev => expedite(prev, o => o.id === id))}
+              onCancel={(id) => setOutbox(prev => prev.filter(o => o.id !== id))}
+            />
+
+            <SubmissionsPanel
+              submissions={submissions}
+              onRefresh={refreshSubmission}
+              onRemove={(id) => setSubmissions(prev => prev.filter(s => s.id !== id))}
+            />
+
+            <DeployedBotPanel
+              linked={deployedBase}
+              changes={deployedChanges}
+              botChanged={deployedBotChanged}
+              documentsChanged={deployedDocumentsChanged}
+              busy={deployBusy}
+              conflict={deployConflict}
+              onLoad={handleLoadDeployed}
+              onUpdate={handleSendUpdate}
+              onUnlink={() => { setDeployedBase(null); setDeployConflict(false); }}
+            />
+
             <Card>
-              <SectionHeading title="Import" subtitle="Paste or upload a JSON to continue." />
+              <SectionHeading title="Import" subtitle="Paste or upload JSON, CSV/TSV, a Markdown FAQ or an HTML FAQ page." />
               <div className="space-y-3">
                 <div className="flex items-center gap-2">
-                  <Button variant="secondary" onClick={() => setImportOpen(true)}>Paste JSON</Button>
-                  <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>Upload JSON</Button>
-                  <input ref={fileInputRef} type="file" accept="application/json" onChange={handleFileOpen} className="hidden" />
+                  <Button
+                    variant="secondary"
+                    onClick={() => {
+                      setSelectedFileName("");
+                      setColumnMap(null);
+                      if (fileInputRef.current) fileInputRef.current.value = "";
+                      setImportOpen(true);
+                    }}
+                  >
+                    Paste
+                  </Button>
+                  <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>Upload file</Button>
+                  <input ref={fileInputRef} type="file" accept=".json,.jsonl,.ndjson,.csv,.tsv,.md,.markdown,.html,.htm,.Modelfile,application/json,text/csv,text/tab-separated-values,text/markdown,text/html,text/plain" onChange={handleFileOpen} className="hidden" />
                 </div>
                 {selectedFileName && (
                   <div className="text-xs text-gray-500">Selected: {selectedFileName}</div>
                 )}
               </div>
             </Card>
+
+            <Playground pairs={pairs} meta={meta} />
+
+            <DuplicateReport
+              pairs={pairs}
+              separate={separateGroups}
+              onMerge={(ids, keepId) => {
+                remember(`Merge ${ids.length} duplicates`);
+                setPairs(prev => mergeCluster(prev, ids, keepId));
+              }}
+              onKeepSeparate={(ids) => setSeparateGroups(prev => [...prev, ids])}
+            />
           </div>
 
           {/* Right column: Q/A editor */}
           <div className="lg:col-span-2 space-y-6">
             <Card>
-              <SectionHeading title="Q&A pairs" subtitle="Add questions and their answers. Use tags (comma-separated) to group topics or courses." />
-              <div className="space-y-4">
-                {pairs.map((pair, idx) => (
-                  <div key={pair.id} className="rounded-xl border border-gray-200 p-4">
-                    <div className="mb-2 flex items-center justify-between">
-                      <div className="text-xs font-medium text-gray-500">#{idx + 1}</div>
-                      <div className="flex items-center gap-2">
-                        <Button variant="ghost" onClick={() => movePair(pair.id, -1)} disabled={idx === 0} title="Move up">↑</Button>
-                        <Button variant="ghost" onClick={() => movePair(pair.id, 1)} disabled={idx === pairs.length - 1} title="Move down">↓</Button>
-                        <Button variant="danger" onClick={() => removePair(pair.id)} disabled={pairs.length === 1}>Remove</Button>
-                      </div>
+              <SectionHeading title="Q&A pairs" subtitle="Add questions and their answers. Use tags to group topics or courses." />
+              <label className="-mt-2 mb-4 flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={markdownAnswers}
+                  onChange={(e) => changeMeta({ answerFormat: e.target.checked ? "markdown" : "plain" }, "Change answer format")}
+                />
+                Answers use Markdown
+                <Tiny>(steps, **bold**, [links](https://…), `code`) — previewed as students will see them</Tiny>
+              </label>
+              <div className="mb-4">
+                <Input
+                  type="search"
+                  placeholder="Search questions, answers and tags…"
+                  value={search}
+                  onChange={(e) => changeSearch(e.target.value)}
+                />
+              </div>
+              <div className="flex flex-col gap-4 md:flex-row">
+                <aside className="shrink-0 md:sticky md:top-4 md:w-44 md:self-start">
+                  <Label>Tags</Label>
+                  <TagFacets facets={facets} total={pairs.length} selected={tagFilter} onSelect={changeTagFilter} />
+                </aside>
+                <div className="min-w-0 flex-1">
+                  {filtering && visiblePairs.length === 0 && (
+                    <div className="mb-4 rounded-xl border border-dashed border-gray-300 p-6 text-center text-sm text-gray-500">
+                      No pairs match.{" "}
+                      <button type="button" className="underline" onClick={() => { changeSearch(""); changeTagFilter(null); }}>Clear filters</button>
                     </div>
-                    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-                      <div>
-                        <Label>Question</Label>
-                        <Textarea placeholder="e.g., What does gain mean and what does it do?" value={pair.q} onChange={(e) => updatePair(pair.id, { q: e.target.value })} />
+                  )}
+                  <datalist id={KNOWN_TAGS_LIST}>
+                    {knownTags.map(t => <option key={t} value={t} />)}
+                  </datalist>
+                  <BulkBar
+                    selected={selection.size}
+                    total={pairs.length}
+                    allShown={allShownSelected}
+                    onToggleShown={toggleShownSelected}
+                    onClear={() => setSelectedIds([])}
+                    onDelete={handleBulkDelete}
+                    onDuplicate={() => bulkEdit(`Duplicate ${pairsLabel(selection)}`, prev => duplicatePairs(prev, selection, uid))}
+                    onTag={(typed, add) => {
+                      const tag = add ? canonicalTag(typed, tagRules, knownTags) : typed;
+                      bulkEdit(
+                        add ? `Tag ${pairsLabel(selection)} "${tag}"` : `Remove tag "${tag}" from ${pairsLabel(selection)}`,
+                        prev => retagPairs(prev, selection, tag, add)
+                      );
+                    }}
+                    onMoveTo={(position) => bulkEdit(`Move ${pairsLabel(selection)} to #${position}`, prev => movePairsTo(prev, selection, position))}
+                    onLinkTranslations={() => bulkEdit(`Link ${pairsLabel(selection)} as translations`, prev => linkTranslations(prev, [...selection]))}
+                  />
+                  <VirtualList items={visiblePairs} itemKey={(r) => r.pair.id}>
+                    {({ pair, index: idx }) => (
+                      <div
+                        data-pair-card
+                        onDragOver={(e) => handleDragOver(e, pair.id)}
+                        onDrop={handleDrop}
+                        className={classNames(
+                          "rounded-xl border p-4",
+                          selection.has(pair.id) ? "border-indigo-300 bg-indigo-50/30" : "border-gray-200",
+                          dragIds?.includes(pair.id) && "opacity-50",
+                          dropTarget?.id === pair.id && (dropTarget.after ? "shadow-[0_3px_0_0_#4f46e5]" : "shadow-[0_-3px_0_0_#4f46e5]")
+                        )}
+                      >
+                        <div className="mb-2 flex items-center justify-between">
+                          <div className="flex items-center gap-2 text-xs font-medium text-gray-500">
+                            <button
+                              type="button"
+                              draggable
+                              data-drag-handle={pair.id}
+                              onDragStart={(e) => handleDragStart(e, pair.id)}
+                              onDragEnd={handleDragEnd}
+                              onKeyDown={(e) => handleHandleKey(e, pair.id)}
+                              className="cursor-grab rounded px-1 text-base leading-none text-gray-400 hover:text-gray-700"
+                              title="Drag to reorder, or focus and press ↑/↓ (moves the selection if this pair is selected)"
+                              aria-label={`Reorder pair #${idx + 1}`}
+                            >
+                              ⠿
+                            </button>
+                            <input
+                              type="checkbox"
+                              checked={selection.has(pair.id)}
+                              onChange={() => toggleSelected(pair.id)}
+                              aria-label={`Select pair #${idx + 1}`}
+                            />
+                            #{idx + 1}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Button variant="ghost" onClick={() => movePair(pair.id, -1)} disabled={visiblePairs[0]?.pair.id === pair.id} title="Move up">↑</Button>
+                            <Button variant="ghost" onClick={() => movePair(pair.id, 1)} disabled={visiblePairs[visiblePairs.length - 1]?.pair.id === pair.id} title="Move down">↓</Button>
+                            <Button variant="danger" onClick={() => removePair(pair.id)} disabled={pairs.length === 1}>Remove</Button>
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                          <div className={markdownAnswers ? "sm:col-span-2" : undefined}>
+                            <Label>Question</Label>
+                            <HighlightTextarea
+                              placeholder="e.g., What does gain mean and what does it do?"
+                              value={pair.q}
+                              onChange={(e) => updatePair(pair.id, { q: e.target.value })}
+                              findings={findingsFor(pair.id, "q")}
+                              allowed={allowed}
+                              hits={termRanges(pair.q, searchWords)}
+                            />
+                            <VariantChips
+                              question={pair.q}
+                              variants={pair.variants ?? []}
+                              onChange={(variants) => updatePair(pair.id, { variants })}
+                            />
+                          </div>
+                          <div>
+                            <Label>Answer</Label>
+                            <HighlightTextarea
+                              placeholder="Gain refers to the voltage applied to the detector. If the gain is too low, you won't see photons. If it's too high, you might see more photons..."
+                              value={pair.a}
+                              onChange={(e) => updatePair(pair.id, { a: e.target.value })}
+                              findings={findingsFor(pair.id, "a")}
+                              allowed={allowed}
+                              hits={termRanges(pair.a, searchWords)}
+                            />
+                          </div>
+                          {markdownAnswers && (
+                            <div>
+                              <Label>Preview</Label>
+                              <div className="min-h-[100px] rounded-xl border border-gray-200 bg-white px-3 py-2">
+                                {pair.a.trim() ? <MarkdownView text={pair.a} /> : <Tiny>The rendered answer appears here.</Tiny>}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                        {(linkIssues.get(pair.id) ?? []).length > 0 && (
+                          <ul className="mt-2 space-y-0.5 text-xs text-rose-700">
+                            {linkIssues.get(pair.id)!.map((l, i) => (
+                              <li key={i}>Malformed link <code>{l.url || "(empty)"}</code>: {l.reason}</li>
+                            ))}
+                          </ul>
+                        )}
+                        <FindingList
+                          findings={[...findingsFor(pair.id, "q"), ...findingsFor(pair.id, "a")]}
+                          allowed={allowed}
+                          onToggle={toggleAllowed}
+                        />
+                        <div className="mt-3">
+                          <Label>Tags (optional)</Label>
+                          <TagInput
+                            tags={pair.tags ?? []}
+                            known={knownTags}
+                            rules={tagRules}
+                            onChange={(tags) => updatePair(pair.id, { tags })}
+                          />
+                        </div>
+                        <div className="mt-3 flex flex-wrap items-center gap-2">
+                          <Label htmlFor={`lang-${pair.id}`}>Language</Label>
+                          <LanguageSelect
+                            id={`lang-${pair.id}`}
+                            lang={pair.lang}
+                            detected={pair.lang ? undefined : pairLangs.get(pair.id)}
+                            onChange={(lang) => updatePair(pair.id, { lang })}
+                          />
+                          {pair.group && (
+                            <>
+                              <Tiny>
+                                Translations:{" "}
+                                {pairs.filter(p => p.group === pair.group && p.id !== pair.id).map(p => pairLangs.get(p.id) ?? "?").join(", ") || "none left"}
+                              </Tiny>
+                              <Button
+                                variant="ghost"
+                                className="px-2 py-1 text-xs"
+                                onClick={() => {
+                                  remember(`Unlink translation #${idx + 1}`);
+                                  setPairs(prev => unlinkTranslation(prev, pair.id));
+                                }}
+                              >
+                                Unlink
+                              </Button>
+                            </>
+                          )}
+                        </div>
                       </div>
-                      <div>
-                        <Label>Answer</Label>
-                        <Textarea placeholder="Gain refers to the voltage applied to the detector. If the gain is too low, you won't see photons. If it's too high, you might see more photons..." value={pair.a} onChange={(e) => updatePair(pair.id, { a: e.target.value })} />
-                      </div>
-                    </div>
-                    <div className="mt-3">
-                      <Label>Tags (optional)</Label>
-                      <Input
-                        placeholder="comma,separated,tags  (e.g., syllabus, office-hours, policy)"
-                        value={(pair.tags || []).join(",")}
-                        onChange={(e) => updatePair(pair.id, { tags: e.target.value.split(",").map(s => s.trim()).filter(Boolean) })}
-                      />
-                    </div>
+                    )}
+                  </VirtualList>
+                  <div className="flex items-center justify-between">
+                    <Button variant="secondary" onClick={addPair}>+ Add another pair</Button>
+                    <Tiny>
+                      {filtering && `${visiblePairs.length} of `}{pairs.length} pair{pairs.length === 1 ? "" : "s"}
+                    </Tiny>
                   </div>
-                ))}
-                <div className="flex items-center justify-between">
-                  <Button variant="secondary" onClick={addPair}>+ Add another pair</Button>
-                  <Tiny>{pairs.length} pair{pairs.length === 1 ? "" : "s"}</Tiny>
                 </div>
               </div>
             </Card>
+
+            <LanguageCoverage
+              languages={coverage.languages}
+              counts={coverage.counts}
+              rows={coverage.rows}
+              embedModel={meta.embedModel}
+              onAddTranslation={addTranslation}
+            />
+
+            <EvalPanel
+              suite={evalSuite}
+              pairs={pairs}
+              defaultEndpoint={chatEndpoint(CHAT_BASE || activeBackend.base, slug)}
+              name={slug}
+              draftId={activeDraftId}
+              fetchImpl={backendFetch}
+              onChange={setEvalSuite}
+            />
+
+            <DocumentsPanel
+              documents={documents}
+              onAdd={(docs) => setDocuments(prev => [...prev, ...docs])}
+              onChange={(id, patch) => setDocuments(prev => prev.map(d => (d.id === id ? { ...d, ...patch } : d)))}
+              onRemove={(doc) => {
+                if (confirm(`Remove "${doc.name}" and its ${documentChunks(doc).length} chunks?`)) {
+                  setDocuments(prev => prev.filter(d => d.id !== doc.id));
+                }
+              }}
+            />
           </div>
         </div>
 
@@ -670,15 +3648,69 @@ export default function App() {
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
             <div className="w-full max-w-3xl rounded-2xl bg-white p-5 shadow-xl">
               <div className="mb-3 flex items-center justify-between">
-                <h3 className="text-lg font-semibold">Import from JSON</h3>
-                <Button variant="ghost" onClick={() => setImportOpen(false)}>Close</Button>
-              </div>
-              <p className="mb-2 text-sm text-gray-600">Paste a previously exported payload, a raw array of Q/A, or JSONL. Trailing commas will be stripped automatically.</p>
-              <Textarea ref={importTextAreaRef} value={importText} onChange={(e) => setImportText(e.target.value)} className="min-h-[220px]" />
-              <div className="mt-4 flex items-center justify-end gap-2">
-                <Button variant="secondary" onClick={handleImportJSON}>Import</Button>
-                <Button variant="ghost" onClick={() => setImportOpen(false)}>Cancel</Button>
+                <h3 className="text-lg font-semibold">{importPreview ? "Review import" : "Import Q&A"}</h3>
+                <Button variant="ghost" onClick={closeImport}>Close</Button>
               </div>
+              {importPreview ? (
+                <ImportPreview
+                  result={importPreview}
+                  existing={pairs}
+                  onBack={() => setImportPreview(null)}
+                  onCommit={handleCommitImport}
+                />
+              ) : (
+                <>
+                  <p className="mb-2 text-sm text-gray-600">
+                    Paste a previously exported payload, a raw array of Q/A, JSONL, CSV/TSV with a header row, a Markdown FAQ
+                    (<code>## Question</code> then the answer) or HTML with <code>&lt;dt&gt;/&lt;dd&gt;</code> or <code>&lt;details&gt;</code> blocks.
+                    Trailing commas in JSON will be stripped automatically.
+                  </p>
+                  <Textarea
+                    ref={importTextAreaRef}
+                    value={importText}
+                    onChange={(e) => { setImportText(e.target.value); setColumnMap(null); setImportError(""); }}
+                    className="min-h-[220px]"
+                  />
+                  <div className="mt-2">
+                    <Tiny>Detected format: {importFormat ? importFormat.label : "unknown"}{selectedFileName ? ` (from ${selectedFileName})` : ""}</Tiny>
+                  </div>
+                  {importHeader && effectiveColumns && (
+                    <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-3">
+                      {(["q", "a", "tags", "variants", "lang", "group"] as const).map(key => (
+                        <div key={key}>
+                          <Label>
+                            {{
+                              q: "Question column",
+                              a: "Answer column",
+                              tags: "Tags column",
+                              variants: "Variants column",
+                              lang: "Language column",
+                              group: "Translation group column",
+                            }[key]}
+                          </Label>
+                          <select
+                            className="w-full rounded-xl border border-gray-300 bg-white px-2 py-2 text-sm"
+                            value={effectiveColumns[key]}
+                            onChange={(e) => setColumnMap({ ...effectiveColumns, [key]: Number(e.target.value) })}
+                          >
+                            <option value={-1}>{key === "q" || key === "a" ? "(choose a column)" : "(none)"}</option>
+                            {importHeader.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {importError && (
+                    <div className="mt-3 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700" role="alert">
+                      {importError}
+                    </div>
+                  )}
+                  <div className="mt-4 flex items-center justify-end gap-2">
+                    <Button variant="secondary" onClick={handlePreviewImport}>Preview</Button>
+                    <Button variant="ghost" onClick={closeImport}>Cancel</Button>
+                  </div>
+                </>
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { bearerHeaders, jwtClaims, sessionExpired, verifySignInCode } from "./auth";
+
+const jwt = `e30.${btoa(JSON.stringify({ email: "prof@umass.edu", exp: 1893456000 })).replace(/=+$/, "")}.sig`;
+const issuerReply = (body: unknown, status = 200) => (async () => new Response(JSON.stringify(body), { status })) as unknown as typeof fetch;
+
+describe("tokens", () => {
+  it("builds bearer headers only when signed in", () => {
+    expect(bearerHeaders("t0k")).toEqual({ Authorization: "Bearer t0k" });
+    expect(bearerHeaders()).toEqual({});
+  });
+
+  it("reads JWT claims and ignores opaque tokens", () => {
+    expect(jwtClaims(jwt)?.email).toBe("prof@umass.edu");
+    expect(jwtClaims("opaque-token")).toBeNull();
+  });
+
+  it("expires sessions a little early to allow for clock skew", () => {
+    const session = { expiresAt: "2026-01-01T00:01:00.000Z" };
+    expect(sessionExpired(session, Date.parse("2026-01-01T00:00:00.000Z"))).toBe(false);
+    expect(sessionExpired(session, Date.parse("2026-01-01T00:00:45.000Z"))).toBe(true);
+  });
+});
+
+describe("verifySignInCode", () => {
+  it("trusts the token's email over the typed one", async () => {
+    const session = await verifySignInCode("http://issuer", "Typed@x.edu", "123456", issuerReply({ access_token: jwt, expires_in: 60 }), 0);
+    expect(session).toMatchObject({ email: "prof@umass.edu", expiresAt: "1970-01-01T00:01:00.000Z", token: jwt });
+  });
+
+  it("surfaces the issuer's error with its status", async () => {
+    await expect(verifySignInCode("http://issuer", "a@x.edu", "000000", issuerReply({ error: "That code is not right." }, 401)))
+      .rejects.toMatchObject({ status: 401, message: "That code is not right." });
+  });
+
+  it("refuses a reply without a token", async () => {
+    await expect(verifySignInCode("http://issuer", "a@x.edu", "1", issuerReply({}))).rejects.toThrow("access token");
+  });
+});
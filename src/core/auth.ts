@@ -0,0 +1,78 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { coerceStr } from "./util";
+
+// Owner sign-in with an emailed one-time code. The issuer (mock/issuer.mjs locally)
+// exposes POST /otp/start { email } and POST /otp/verify { email, code }; the access
+// token it returns is sent to the backend as a bearer header.
+
+export type AuthSession = {
+  token: string;
+  email: string; // verified by the issuer, never what the user typed
+  expiresAt: string;
+  issuer: string;
+};
+
+export function bearerHeaders(token?: string): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/** The claims of a JWT, unverified (the backend checks the signature); null for opaque tokens. */
+export function jwtClaims(token: string): any | null {
+  const part = token.split(".")[1];
+  if (!part) return null;
+  try {
+    const json = atob(part.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(part.length / 4) * 4, "="));
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+export const SESSION_SKEW_MS = 30_000;
+
+/** Treats a session as over slightly early, so a request is never sent with a token about to lapse. */
+export function sessionExpired(session: Pick<AuthSession, "expiresAt">, now = Date.now(), skewMs = SESSION_SKEW_MS) {
+  return Date.parse(session.expiresAt) - skewMs <= now;
+}
+
+async function postJson(url: string, body: unknown, fetchImpl: typeof fetch): Promise<any> {
+  const res = await fetchImpl(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw Object.assign(new Error(coerceStr(data?.error) || `HTTP ${res.status}`), { status: res.status });
+  return data;
+}
+
+/** Asks the issuer to email a one-time code; resolves to how long the code stays valid. */
+export async function requestSignInCode(issuer: string, email: string, fetchImpl: typeof fetch = fetch): Promise<{ expiresInSeconds?: number }> {
+  const data = await postJson(`${issuer.replace(/\/+$/, "")}/otp/start`, { email: email.trim() }, fetchImpl);
+  const seconds = Number(data?.expires_in);
+  return { expiresInSeconds: Number.isFinite(seconds) && seconds > 0 ? seconds : undefined };
+}
+
+/**
+ * Exchanges the code for a session. The email comes from the issuer's answer (or the
+ * token's claims); a response without one is refused rather than trusting the input.
+ */
+export async function verifySignInCode(
+  issuer: string,
+  email: string,
+  code: string,
+  fetchImpl: typeof fetch = fetch,
+  now = Date.now()
+): Promise<AuthSession> {
+  const data = await postJson(`${issuer.replace(/\/+$/, "")}/otp/verify`, { email: email.trim(), code: code.trim() }, fetchImpl);
+  const token = coerceStr(data?.access_token);
+  if (!token) throw new Error("The issuer did not return an access token.");
+  const claims = jwtClaims(token);
+  const verified = coerceStr(data?.email ?? claims?.email).toLowerCase();
+  if (!verified) throw new Error("The issuer did not return a verified email address.");
+  const expiresIn = Number(data?.expires_in);
+  const expiresAt = Number.isFinite(expiresIn) && expiresIn > 0
+    ? now + expiresIn * 1000
+    : typeof claims?.exp === "number" ? claims.exp * 1000 : now + 3600_000;
+  return { token, email: verified, expiresAt: new Date(expiresAt).toISOString(), issuer };
+}
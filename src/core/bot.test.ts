@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { BotMeta } from "./types";
+import { behaviorPrompt, botSlug, buildPayload, contactIssue, emptyMeta, isFilledPair, toPayloadPair, validateMeta } from "./bot";
+import { validatePayload } from "./schema";
+
+const NOW = "2026-01-01T00:00:00.000Z";
+
+describe("toPayloadPair", () => {
+  it("trims text and leaves out empty tags", () => {
+    expect(toPayloadPair({ id: "1", q: " Q1 ", a: " A1 ", tags: [] })).toMatchObject({ q: "Q1", a: "A1", tags: undefined });
+    expect(toPayloadPair({ id: "2", q: "Q2", a: "A2", tags: ["policy"] }).tags).toEqual(["policy"]);
+  });
+
+  it("drops blank variants and repeats of the question", () => {
+    expect(toPayloadPair({ id: "v", q: "Hi", a: "A", variants: [" ", "hi!", "Hello"] }).variants).toEqual(["Hello"]);
+  });
+});
+
+describe("validateMeta", () => {
+  const good: BotMeta = { ...emptyMeta(), lab: "IALS", botName: "Privacy-LLM", ownerEmail: "prof@umass.edu" };
+
+  it("passes complete metadata", () => {
+    expect(validateMeta(good)).toBe(true);
+  });
+
+  it("needs a lab, a name and an email address", () => {
+    expect(validateMeta({ ...good, lab: " " })).toBe(false);
+    expect(validateMeta({ ...good, botName: "" })).toBe(false);
+    expect(validateMeta({ ...good, ownerEmail: "x" })).toBe(false);
+  });
+});
+
+describe("behavior settings", () => {
+  it("accepts an email address or web link as escalation contact", () => {
+    expect(contactIssue("ta@umass.edu")).toBeNull();
+    expect(contactIssue("https://umass.zoom.us/j/1")).toBeNull();
+    expect(contactIssue("room 204")).not.toBeNull();
+  });
+
+  it("builds prompt lines and skips blank topics", () => {
+    const persona = behaviorPrompt({ systemPrompt: " Be brief. ", refusedTopics: ["exams", " ", "grades"], fallbackMessage: "Ask the TA." });
+    expect(persona).toHaveLength(3);
+    expect(persona[1]).toBe("Politely decline questions about: exams, grades.");
+  });
+});
+
+describe("buildPayload", () => {
+  it("derives the slug from lab and bot name", () => {
+    expect(botSlug({ lab: "Scope Lab", botName: "" })).toBe("scope-lab-bot");
+  });
+
+  it("trims metadata and skips blank rows", () => {
+    const built = buildPayload({ ...emptyMeta(), lab: " IALS ", botName: "Scope", ownerEmail: "a@umass.edu" }, [
+      { id: "b1", q: " Hours? ", a: "9-5", tags: [] },
+      { id: "b2", q: "", a: "  ", tags: ["x"] },
+    ], undefined, NOW);
+    expect(built.bot.lab).toBe("IALS");
+    expect(built.bot.slug).toBe("ials-scope");
+    expect(built.pairs).toEqual([{ q: "Hours?", a: "9-5" }]);
+    expect(validatePayload(built)).toEqual([]);
+    expect(isFilledPair({ id: "e", q: " ", a: "" })).toBe(false);
+  });
+
+  it("leaves documents out when there are none", () => {
+    expect(buildPayload(emptyMeta(), []).documents).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import type { BotMeta, ExportPayload, PayloadDocument, PayloadPair, QAPair } from "./types";
+import { PAYLOAD_VERSION } from "./types";
+import { slugify, uniqueVariants } from "./util";
+import { pairLanguage } from "./languages";
+
+/**
+ * Bot metadata as the editor holds it, and its mapping onto the ExportPayload the
+ * backend receives.
+ */
+
+export function emptyMeta(): BotMeta {
+  return {
+    lab: "",
+    botName: "",
+    ownerEmail: "",
+    description: "",
+    baseModel: "qwen2.5:7b-instruct",
+    embedModel: "nomic-embed-text",
+    temperature: 0.2,
+    topP: 0.95,
+    systemPrompt: "",
+    greeting: "",
+    fallbackMessage: "",
+    escalationContact: "",
+    refusedTopics: [],
+    answerFormat: "markdown",
+  };
+}
+
+// Simple metadata validator used by UI and tests
+export function validateMeta(meta: BotMeta) {
+  return (
+    meta.lab.trim().length > 0 &&
+    meta.botName.trim().length > 0 &&
+    /.+@.+\..+/.test(meta.ownerEmail)
+  );
+}
+
+export function contactIssue(contact?: string): string | null {
+  const c = contact?.trim();
+  if (c && !/^https?:\/\/\S+$/i.test(c) && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(c)) {
+    return "Escalation contact must be an email address or an http(s) link.";
+  }
+  return null;
+}
+
+// Extra system-prompt lines for the behavior settings; shared by the Modelfile export and the playground.
+export function behaviorPrompt(b: Pick<BotMeta, "systemPrompt" | "fallbackMessage" | "escalationContact" | "refusedTopics">): string[] {
+  const topics = (b.refusedTopics || []).map(t => t.trim()).filter(Boolean);
+  return [
+    b.systemPrompt?.trim() || "",
+    topics.length ? `Politely decline questions about: ${topics.join(", ")}.` : "",
+    b.fallbackMessage?.trim() ? `If the Q&A pairs do not cover the question, reply: "${b.fallbackMessage.trim()}"` : "",
+    b.escalationContact?.trim() ? `For anything you cannot resolve, refer people to ${b.escalationContact.trim()}.` : "",
+  ].filter(Boolean);
+}
+
+export function toPayloadPair({ q, a, tags, variants, lang, group }: QAPair): PayloadPair {
+  const alternates = uniqueVariants(q || "", variants || []);
+  return {
+    q: (q || "").trim(),
+    a: (a || "").trim(),
+    tags: tags && tags.length ? tags : undefined,
+    variants: alternates.length ? alternates : undefined,
+    lang: pairLanguage({ q, a, lang }),
+    translation_group: group || undefined,
+  };
+}
+
+// The slug the backend deploys under, unless a loaded deployed bot already has one
+export function botSlug(meta: Pick<BotMeta, "lab" | "botName">) {
+  return `${slugify(meta.lab || "lab")}-${slugify(meta.botName || "bot")}`;
+}
+
+// Rows with neither question nor answer are editor placeholders and never exported
+export function isFilledPair(p: QAPair) {
+  return Boolean((p.q || "").trim() || (p.a || "").trim());
+}
+
+export function buildPayload(
+  meta: BotMeta,
+  pairs: QAPair[],
+  slug = botSlug(meta),
+  now = new Date().toISOString(),
+  documents: PayloadDocument[] = []
+): ExportPayload {
+  const refusedTopics = (meta?.refusedTopics || []).map(t => t.trim()).filter(Boolean);
+  return {
+    bot: {
+      name: meta?.botName?.trim() || "Untitled Bot",
+      lab: meta?.lab?.trim() || "",
+      owner_email: meta?.ownerEmail?.trim() || "",
+      description: meta?.description?.trim() || undefined,
+      slug,
+      model: meta?.baseModel || "qwen2.5:7b-instruct",
+      embed_model: meta?.embedModel || "nomic-embed-text",
+      temperature: typeof meta?.temperature === "number" ? meta.temperature : 0.2,
+      top_p: typeof meta?.topP === "number" ? meta.topP : 0.95,
+      system_prompt: meta?.systemPrompt?.trim() || undefined,
+      greeting: meta?.greeting?.trim() || undefined,
+      fallback_message: meta?.fallbackMessage?.trim() || undefined,
+      escalation_contact: meta?.escalationContact?.trim() || undefined,
+      refused_topics: refusedTopics.length ? refusedTopics : undefined,
+      answer_format: meta?.answerFormat ?? "markdown",
+    },
+    pairs: pairs.filter(isFilledPair).map(toPayloadPair),
+    documents: documents.length ? documents : undefined,
+    created_at: now,
+    version: PAYLOAD_VERSION,
+  };
+}
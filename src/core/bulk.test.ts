@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { QAPair } from "./types";
+import { dropPairs, duplicatePairs, movePairsAmong, movePairsTo, removePairs, retagPairs } from "./bulk";
+
+const listed: QAPair[] = [
+  { id: "s1", q: "Where is the lab?", a: "Room 204", tags: ["location"] },
+  { id: "s2", q: "Office hours?", a: "Tuesdays", tags: ["hours", "faq"] },
+  { id: "s3", q: "Lab safety rules?", a: "Wear goggles", tags: [] },
+  { id: "s4", q: "Who runs the lab?", a: "Dr. Smith", tags: ["faq"] },
+];
+const everyId = new Set(listed.map(p => p.id));
+const picked = new Set(["s1", "s3"]);
+const order = (pairs: QAPair[]) => pairs.map(p => p.id).join();
+
+describe("movePairsAmong", () => {
+  it("swaps neighbours when nothing is hidden", () => {
+    expect(order(movePairsAmong(listed, new Set(["s2"]), 1, everyId))).toBe("s1,s3,s2,s4");
+    expect(movePairsAmong(listed, new Set(["s4"]), 1, everyId)).toBe(listed);
+  });
+
+  it("jumps pairs hidden by the filter", () => {
+    expect(order(movePairsAmong(listed, new Set(["s4"]), -1, new Set(["s1", "s4"])))).toBe("s4,s1,s2,s3");
+    expect(order(movePairsAmong(listed, new Set(["s1"]), 1, new Set(["s1", "s4"])))).toBe("s2,s3,s4,s1");
+  });
+
+  it("gathers a selection and steps past the next pair", () => {
+    expect(order(movePairsAmong(listed, picked, 1, everyId))).toBe("s2,s4,s1,s3");
+  });
+});
+
+describe("movePairsTo and dropPairs", () => {
+  it("moves to a clamped position", () => {
+    expect(order(movePairsTo(listed, picked, 1))).toBe("s1,s3,s2,s4");
+    expect(order(movePairsTo(listed, picked, 99))).toBe("s2,s4,s1,s3");
+  });
+
+  it("drops before or after a target outside the selection", () => {
+    expect(order(dropPairs(listed, new Set(["s4"]), "s2", false))).toBe("s1,s4,s2,s3");
+    expect(order(dropPairs(listed, picked, "s4", true))).toBe("s2,s4,s1,s3");
+    expect(dropPairs(listed, picked, "s3", true)).toBe(listed);
+  });
+});
+
+describe("bulk edits", () => {
+  it("duplicates each pair right after itself", () => {
+    let n = 0;
+    const copied = duplicatePairs(listed, picked, () => `c${++n}`);
+    expect(order(copied)).toBe("s1,c1,s2,s3,c2,s4");
+    expect(copied[1].q).toBe(listed[0].q);
+    expect(copied[1].tags).not.toBe(listed[0].tags);
+  });
+
+  it("keeps one blank pair when everything is deleted", () => {
+    expect(order(removePairs(listed, picked, () => "x"))).toBe("s2,s4");
+    expect(order(removePairs(listed, everyId, () => "x"))).toBe("x");
+  });
+
+  it("adds and removes a tag", () => {
+    const retagged = retagPairs(listed, picked, "lab", true);
+    expect(retagged[0].tags).toEqual(["location", "lab"]);
+    expect(retagged[2].tags).toEqual(["lab"]);
+    expect(retagged[1]).toBe(listed[1]);
+    expect(retagPairs(retagged, picked, "lab", false)[0].tags).toEqual(["location"]);
+  });
+});
@@ -0,0 +1,66 @@
+import type { QAPair } from "./types";
+
+// Bulk edits and ordering for selections of pairs.
+
+// All of these keep the relative order of the pairs they move; order is meaningful
+// (exportPayload.pairs goes out in editor order, most important answers first).
+
+/** Moves the `ids` pairs, gathered together, just before or after `targetId`. */
+export function dropPairs(pairs: QAPair[], ids: Set<string>, targetId: string, after: boolean): QAPair[] {
+  if (ids.has(targetId)) return pairs;
+  const moving = pairs.filter(p => ids.has(p.id));
+  const rest = pairs.filter(p => !ids.has(p.id));
+  const at = rest.findIndex(p => p.id === targetId);
+  if (at < 0 || !moving.length) return pairs;
+  const cut = after ? at + 1 : at;
+  return [...rest.slice(0, cut), ...moving, ...rest.slice(cut)];
+}
+
+/** Moves the `ids` pairs so the first of them sits at 1-based `position` (clamped). */
+export function movePairsTo(pairs: QAPair[], ids: Set<string>, position: number): QAPair[] {
+  const moving = pairs.filter(p => ids.has(p.id));
+  const rest = pairs.filter(p => !ids.has(p.id));
+  const cut = Math.min(Math.max(Math.trunc(position) - 1, 0), rest.length);
+  return [...rest.slice(0, cut), ...moving, ...rest.slice(cut)];
+}
+
+/**
+ * Moves the `ids` pairs one step among the `visible` ids (the filtered view): past
+ * the nearest visible pair before the first (or after the last) of them, jumping
+ * hidden pairs. For one pair with nothing hidden this is the plain swap with the
+ * adjacent pair.
+ */
+export function movePairsAmong(pairs: QAPair[], ids: Set<string>, dir: -1 | 1, visible: Set<string>): QAPair[] {
+  const view = pairs.filter(p => visible.has(p.id) || ids.has(p.id));
+  let first = -1;
+  let last = -1;
+  view.forEach((p, i) => {
+    if (!ids.has(p.id)) return;
+    if (first < 0) first = i;
+    last = i;
+  });
+  if (first < 0) return pairs;
+  const neighbour = dir < 0 ? view[first - 1] : view[last + 1];
+  return neighbour ? dropPairs(pairs, ids, neighbour.id, dir > 0) : pairs;
+}
+
+/** Copies of the `ids` pairs, each inserted right after its original. */
+export function duplicatePairs(pairs: QAPair[], ids: Set<string>, makeId: () => string): QAPair[] {
+  // A copy is not a translation, so it leaves the original's translation group
+  return pairs.flatMap(p => (ids.has(p.id) ? [p, { ...p, id: makeId(), tags: [...(p.tags ?? [])], group: undefined }] : [p]));
+}
+
+// The editor always keeps one row, so deleting everything leaves a blank pair
+export function removePairs(pairs: QAPair[], ids: Set<string>, makeId: () => string): QAPair[] {
+  const rest = pairs.filter(p => !ids.has(p.id));
+  return rest.length ? rest : [{ id: makeId(), q: "", a: "", tags: [] }];
+}
+
+export function retagPairs(pairs: QAPair[], ids: Set<string>, tag: string, add: boolean): QAPair[] {
+  return pairs.map(p => {
+    if (!ids.has(p.id)) return p;
+    const tags = p.tags ?? [];
+    if (add ? tags.includes(tag) : !tags.includes(tag)) return p;
+    return { ...p, tags: add ? [...tags, tag] : tags.filter(t => t !== tag) };
+  });
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { buildPayload, emptyMeta } from "./bot";
+import { datasetProblems, loadDataset } from "./dataset";
+import { serializePayload } from "./export";
+
+describe("loadDataset", () => {
+  it("reads a plain CSV without metadata", () => {
+    const ds = loadDataset("q,a\nWhere?,Room 1\nBroken?,\n", { fileName: "faq.csv" });
+    expect(ds.format).toBe("csv");
+    expect(ds.hasMeta).toBe(false);
+    expect(ds.payload.pairs).toHaveLength(1);
+    expect(datasetProblems(ds, true)).toEqual(['line 3: skipped, empty answer — ["Broken?","","","","",""]']);
+    // A full check also needs the bot block
+    expect(datasetProblems(ds).some(p => p.startsWith("bot.lab"))).toBe(true);
+  });
+
+  it("lets metadata overrides win over the file's bot block", () => {
+    const built = buildPayload({ ...emptyMeta(), lab: "IALS", botName: "Scope", ownerEmail: "a@umass.edu" }, [{ id: "1", q: "Hours?", a: "9-5" }]);
+    const ds = loadDataset(serializePayload(built, "json"), { fileName: "bot.json", meta: { botName: "Scope 2" } });
+    expect(ds.hasMeta).toBe(true);
+    expect(ds.payload.bot).toMatchObject({ name: "Scope 2", owner_email: "a@umass.edu" });
+  });
+
+  it("reports malformed links in Markdown answers", () => {
+    const ds = loadDataset("q,a\nLink?,See [x](javascript:alert(1))\n", { meta: { lab: "L", botName: "B", ownerEmail: "o@x.edu" } });
+    expect(datasetProblems(ds)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,61 @@
+import type { BotMeta, ExportPayload, QAPair } from "./types";
+import { buildPayload, emptyMeta } from "./bot";
+import { parseAnyQAPairs, rowWhere, type ColumnMap, type ImportIssue } from "./import";
+import { formatIssue, validatePayload } from "./schema";
+import { checkLinks } from "./markdown";
+import { toPayloadDocument } from "./documents";
+import { uid } from "./util";
+
+/**
+ * A dataset file read into the payload it would be submitted as. Metadata comes from
+ * the file's bot block (exported payloads, Modelfiles), then from `meta` overrides;
+ * `hasMeta` is false when neither supplied any, e.g. for a plain CSV.
+ */
+export type Dataset = {
+  format: string;
+  payload: ExportPayload;
+  hasMeta: boolean;
+  rejected: ImportIssue[];
+  notices: string[];
+};
+
+const defined = <T extends object>(o: T | undefined): Partial<T> =>
+  Object.fromEntries(Object.entries(o ?? {}).filter(([, v]) => v !== undefined)) as Partial<T>;
+
+export function loadDataset(text: string, opts: {
+  fileName?: string;
+  columns?: ColumnMap;
+  meta?: Partial<BotMeta>;
+  slug?: string;
+  now?: string;
+} = {}): Dataset {
+  const result = parseAnyQAPairs(text, opts);
+  const overrides = defined(opts.meta);
+  const meta: BotMeta = { ...emptyMeta(), ...defined(result.metaPatch), ...overrides };
+  const pairs: QAPair[] = result.pairs.map(({ q, a, tags, variants, lang, group }) => ({ id: uid(), q, a, tags: tags ?? [], variants, lang, group }));
+  return {
+    format: result.format,
+    payload: buildPayload(meta, pairs, opts.slug, opts.now, (result.documents ?? []).map(toPayloadDocument)),
+    hasMeta: Boolean(result.metaPatch) || Object.keys(overrides).length > 0,
+    rejected: result.rejected ?? [],
+    notices: result.notices ?? [],
+  };
+}
+
+/**
+ * Everything that would stop the dataset from being submitted, one line each:
+ * skipped rows, schema issues and (for Markdown answers) malformed links.
+ * `pairsOnly` skips the bot block, for datasets that carry no metadata.
+ */
+export function datasetProblems(ds: Dataset, pairsOnly = false): string[] {
+  const { payload } = ds;
+  const issues = validatePayload(payload).filter(i => !pairsOnly || i.path.startsWith("pairs"));
+  const links = payload.bot.answer_format === "markdown"
+    ? payload.pairs.flatMap((p, i) => checkLinks(p.a).map(l => `pairs[${i}].a: malformed link ${l.url || "(empty)"}: ${l.reason}`))
+    : [];
+  return [
+    ...ds.rejected.map(r => `${rowWhere(r) || "row"}: skipped, ${r.reason} — ${r.excerpt}`),
+    ...issues.map(formatIssue),
+    ...links,
+  ];
+}
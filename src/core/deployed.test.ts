@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import type { ExportPayload } from "./types";
+import { buildPayload, emptyMeta } from "./bot";
+import { buildUpdateRequest, countChanges, diffPairs, isEmptyUpdate, parseDeployedBot, sameBot } from "./deployed";
+import { newDocument, toPayloadDocument } from "./documents";
+
+const sop = toPayloadDocument(newDocument("sop.md", "# SOP\n\nWear goggles."));
+
+const response = {
+  slug: "ials-bot",
+  version_id: "v3",
+  payload: {
+    bot: buildPayload({ ...emptyMeta(), lab: "IALS", botName: "Bot", ownerEmail: "a@umass.edu" }, []).bot,
+    pairs: [
+      { id: "p1", q: "Hours?", a: "9-5", variants: ["When are you open?", "Opening times?"] },
+      { id: "p2", q: "Where?", a: "LGRT", tags: ["location"], lang: "en" },
+      { q: "New?", a: "Yes" },
+    ],
+    documents: [sop],
+  },
+};
+
+describe("parseDeployedBot", () => {
+  it("keeps only pairs with server ids in the baseline", () => {
+    const deployed = parseDeployedBot(response, "http://b");
+    expect(deployed.baseline).toMatchObject({ slug: "ials-bot", versionId: "v3", backend: "http://b" });
+    expect(deployed.baseline.pairs.map(p => p.id)).toEqual(["p1", "p2"]);
+    expect(deployed.pairs).toHaveLength(3);
+  });
+
+  it("keeps alternate phrasings", () => {
+    const deployed = parseDeployedBot(response, "http://b");
+    expect(deployed.pairs[0].variants).toEqual(["When are you open?", "Opening times?"]);
+    expect(deployed.baseline.pairs[0].variants).toEqual(["When are you open?", "Opening times?"]);
+  });
+
+  it("loads reference documents into the editor and the baseline", () => {
+    const deployed = parseDeployedBot(response, "http://b");
+    expect(deployed.documents.map(d => d.text)).toEqual([sop.text]);
+    expect(deployed.baseline.documents).toEqual([sop]);
+  });
+
+  it("refuses a response without a version", () => {
+    expect(() => parseDeployedBot({ slug: "x", payload: response.payload }, "http://b")).toThrow("version_id");
+  });
+});
+
+describe("updates", () => {
+  const deployed = parseDeployedBot(response, "http://b");
+  const edited = deployed.pairs
+    .filter(p => p.id !== "p2")
+    .map(p => (p.id === "p1" ? { ...p, a: "9-6" } : p))
+    .concat([{ id: "blank", q: " ", a: "" }]);
+
+  it("reports added, updated and removed pairs and skips blank rows", () => {
+    const changes = diffPairs(deployed.baseline.pairs, edited);
+    expect(changes.added.map(p => p.q)).toEqual(["New?"]);
+    expect(changes.updated.map(p => p.id)).toEqual(["p1"]);
+    expect(changes.updated[0].variants).toEqual(["When are you open?", "Opening times?"]);
+    expect(changes.removed).toEqual(["p2"]);
+  });
+
+  it("sends nothing for a bot loaded and left unchanged", () => {
+    const loaded = parseDeployedBot({ ...response, payload: { ...response.payload, pairs: response.payload.pairs.slice(0, 2) } }, "http://b");
+    const payload = buildPayload({ ...emptyMeta(), ...loaded.metaPatch }, loaded.pairs, undefined, undefined, loaded.documents.map(toPayloadDocument));
+    const request = buildUpdateRequest(loaded.baseline, payload, loaded.pairs);
+    expect(loaded.baseline.pairs).toEqual(response.payload.pairs.slice(0, 2));
+    expect(countChanges(request.changes)).toBe(0);
+    expect(sameBot(loaded.baseline.bot, request.bot)).toBe(true);
+    expect(request.documents).toBeUndefined();
+    expect(isEmptyUpdate(loaded.baseline, request)).toBe(true);
+  });
+
+  it("sends the whole document list when it changed", () => {
+    const payload = buildPayload({ ...emptyMeta(), ...deployed.metaPatch }, deployed.pairs);
+    const request = buildUpdateRequest(deployed.baseline, payload, deployed.pairs);
+    expect(request.documents).toEqual([]);
+    expect(isEmptyUpdate(deployed.baseline, request)).toBe(false);
+    const edited = { ...deployed.documents[0], chunkSize: 500 };
+    const withDocs = buildPayload({ ...emptyMeta(), ...deployed.metaPatch }, deployed.pairs, undefined, undefined, [toPayloadDocument(edited)]);
+    expect(buildUpdateRequest(deployed.baseline, withDocs, deployed.pairs).documents?.[0].chunk_size).toBe(500);
+  });
+
+  it("targets the loaded slug and version", () => {
+    const update = buildUpdateRequest(deployed.baseline, { bot: { name: "Bot", lab: "IALS", slug: "other" } } as ExportPayload, edited);
+    expect(update.base_version).toBe("v3");
+    expect(update.bot.slug).toBe("ials-bot");
+  });
+
+  it("treats missing and empty bot settings alike", () => {
+    expect(sameBot({ name: "Bot", description: undefined } as ExportPayload["bot"], { name: "Bot", description: "" } as ExportPayload["bot"])).toBe(true);
+  });
+});
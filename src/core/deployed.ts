@@ -0,0 +1,125 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { BotMeta, ExportPayload, PayloadDocument, PayloadPair, QAPair, RefDocument } from "./types";
+import { coerceStr, sameTags, uid } from "./util";
+import { toPayloadPair } from "./bot";
+import { documentFromPayload, toPayloadDocument } from "./documents";
+import { migratePayload } from "./schema";
+import { collectRows, metaPatchFromBot } from "./import";
+
+/**
+ * Updating a bot that is already deployed: reading it back from the backend, and
+ * diffing the editor's pairs against what the backend has so only changes are sent.
+ */
+
+export type DeployedPair = PayloadPair & { id: string };
+
+// What the backend last had for a bot loaded into the editor: the base for diffs and conflict checks.
+export type DeployedBaseline = {
+  slug: string;
+  versionId: string;
+  backend: string;
+  bot: ExportPayload["bot"];
+  pairs: DeployedPair[];
+  documents: PayloadDocument[];
+};
+
+export type PairChanges = { added: DeployedPair[]; updated: DeployedPair[]; removed: string[] };
+
+export type UpdateRequest = {
+  base_version: string;
+  bot: ExportPayload["bot"];
+  changes: PairChanges;
+  // Documents have no ids to diff by: the whole list is sent, and only when it changed
+  documents?: PayloadDocument[];
+};
+
+function samePayloadPair(x: PayloadPair, y: PayloadPair) {
+  return x.q === y.q && x.a === y.a && sameTags(x.tags, y.tags) && sameTags(x.variants, y.variants) &&
+    (x.lang ?? "") === (y.lang ?? "") && (x.translation_group ?? "") === (y.translation_group ?? "");
+}
+
+// Blank editor rows are ignored; pair identity is the editor id, which loaded pairs share with the backend.
+export function diffPairs(baseline: DeployedPair[], current: QAPair[]): PairChanges {
+  const before = new Map(baseline.map(p => [p.id, p]));
+  const now = current.filter(p => (p.q || "").trim() || (p.a || "").trim());
+  const added: DeployedPair[] = [];
+  const updated: DeployedPair[] = [];
+  for (const p of now) {
+    const next = { id: p.id, ...toPayloadPair(p) };
+    const prev = before.get(p.id);
+    if (!prev) added.push(next);
+    else if (!samePayloadPair(prev, next)) updated.push(next);
+  }
+  const ids = new Set(now.map(p => p.id));
+  return { added, updated, removed: baseline.filter(p => !ids.has(p.id)).map(p => p.id) };
+}
+
+export function countChanges(c: PairChanges) {
+  return c.added.length + c.updated.length + c.removed.length;
+}
+
+// Chunks follow from the other fields, so they are not compared.
+export function sameDocuments(x: PayloadDocument[], y: PayloadDocument[]) {
+  return x.length === y.length && x.every((d, i) =>
+    d.name === y[i].name && d.format === y[i].format && d.text === y[i].text &&
+    d.chunk_size === y[i].chunk_size && d.chunk_overlap === y[i].chunk_overlap);
+}
+
+export function buildUpdateRequest(baseline: DeployedBaseline, payload: ExportPayload, current: QAPair[]): UpdateRequest {
+  const documents = payload.documents ?? [];
+  return {
+    base_version: baseline.versionId,
+    bot: { ...payload.bot, slug: baseline.slug },
+    changes: diffPairs(baseline.pairs, current),
+    ...(sameDocuments(baseline.documents, documents) ? {} : { documents }),
+  };
+}
+
+/** True when sending the request would change nothing on the backend. */
+export function isEmptyUpdate(baseline: DeployedBaseline, request: UpdateRequest) {
+  return !countChanges(request.changes) && sameBot(baseline.bot, request.bot) && !request.documents;
+}
+
+/**
+ * Reads GET /chatbots/{slug}: `{ slug, version_id, payload: ExportPayload }` where
+ * each payload pair carries the backend's `id`. Pairs without one get a fresh id
+ * (and will be sent as additions on the next update).
+ */
+export function parseDeployedBot(data: any, backend: string): {
+  baseline: DeployedBaseline;
+  metaPatch: Partial<BotMeta>;
+  pairs: QAPair[];
+  documents: RefDocument[];
+} {
+  const { payload } = migratePayload(data?.payload ?? data ?? {});
+  const slug = coerceStr(data?.slug ?? payload?.bot?.slug);
+  const versionId = coerceStr(data?.version_id ?? data?.version);
+  if (!slug || !versionId || !payload.bot || !Array.isArray(payload.pairs)) {
+    throw new Error("Unexpected response: expected slug, version_id and payload { bot, pairs }");
+  }
+  const { pairs: rows } = collectRows(payload.pairs, i => ({ item: i + 1 }));
+  const known: DeployedPair[] = [];
+  const pairs: QAPair[] = rows.map(r => {
+    const serverId = coerceStr(payload.pairs[(r.item ?? 1) - 1]?.id);
+    const pair: QAPair = { id: serverId || uid(), q: r.q, a: r.a, tags: r.tags ?? [], variants: r.variants, lang: r.lang, group: r.group };
+    if (serverId) known.push({ id: serverId, ...toPayloadPair(pair) });
+    return pair;
+  });
+  const documents = (Array.isArray(payload.documents) ? payload.documents : []).flatMap((d: any) => documentFromPayload(d) ?? []);
+  const baseline: DeployedBaseline = {
+    slug,
+    versionId,
+    backend,
+    bot: { ...payload.bot, slug },
+    pairs: known,
+    documents: documents.map(toPayloadDocument),
+  };
+  return { baseline, metaPatch: metaPatchFromBot(payload.bot), pairs, documents };
+}
+
+// Compares bot settings field by field, treating missing and empty values alike.
+export function sameBot(x: ExportPayload["bot"], y: ExportPayload["bot"]) {
+  const keys = new Set([...Object.keys(x), ...Object.keys(y)]) as Set<keyof ExportPayload["bot"]>;
+  const norm = (v: unknown) => (Array.isArray(v) ? v.join("\n") : v ?? "");
+  return Array.from(keys).every(k => norm(x[k]) === norm(y[k]));
+}
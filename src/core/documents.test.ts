@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { buildPayload, emptyMeta } from "./bot";
+import { chunkingIssue, chunkText, cleanDocument, documentChunks, documentFormat, newDocument, toPayloadDocument } from "./documents";
+import { serializePayload } from "./export";
+import { parseAnyQAPairs } from "./import";
+import { validatePayload } from "./schema";
+
+const prose = "First paragraph here. It has two sentences.\n\nSecond paragraph is a bit longer and keeps going for a while.\n\nThird one.";
+
+describe("cleaning", () => {
+  it("tells formats apart by extension, then by content", () => {
+    expect(documentFormat("sop.htm")).toBe("html");
+    expect(documentFormat("notes", "# Intro\ntext")).toBe("markdown");
+    expect(documentFormat("notes", "plain")).toBe("text");
+  });
+
+  it("turns HTML into Markdown without page chrome", () => {
+    const html = "<html><head><title>x</title></head><body><nav>menu</nav><h2>Safety</h2><p>Wear&nbsp;goggles.</p><ul><li>One</li><li>Two</li></ul></body></html>";
+    expect(cleanDocument(html, "html")).toBe("## Safety\n\nWear goggles.\n\n- One\n- Two");
+  });
+
+  it("drops front matter, comments and extra blank lines from Markdown", () => {
+    expect(cleanDocument("---\ntitle: x\n---\n# SOP\r\n\r\n\r\nStep 1  \n<!-- hidden -->", "markdown")).toBe("# SOP\n\nStep 1");
+  });
+});
+
+describe("chunkText", () => {
+  it("breaks at paragraphs and overlaps from a sentence", () => {
+    const chunked = chunkText(prose, 60, 20);
+    expect(chunked).toHaveLength(3);
+    expect(chunked[0]).toBe("First paragraph here. It has two sentences.");
+    expect(chunked[1].startsWith("has two sentences.")).toBe(true);
+  });
+
+  it("keeps all text exactly once without overlap", () => {
+    expect(chunkText(prose, 60, 0).join(" ").replace(/\s+/g, " ")).toBe(prose.replace(/\s+/g, " "));
+  });
+
+  it("starts overlaps at words", () => {
+    expect(chunkText("alpha beta gamma delta epsilon zeta eta theta", 20, 8)).toEqual(["alpha beta gamma", "gamma delta epsilon", "epsilon zeta eta", "eta theta"]);
+  });
+
+  it("refuses invalid chunking", () => {
+    expect(chunkingIssue({ chunkSize: 400, chunkOverlap: 300 })).not.toBe("");
+    expect(documentChunks({ ...newDocument("x.txt", prose), chunkSize: 1 })).toEqual([]);
+  });
+});
+
+describe("documents in the payload", () => {
+  const sop = newDocument("sop.md", "# SOP\n\n" + prose);
+  const withDocs = buildPayload({ ...emptyMeta(), lab: "IALS", botName: "Scope", ownerEmail: "a@umass.edu" }, [{ id: "d1", q: "Hours?", a: "9-5" }], undefined, "2026-01-01T00:00:00.000Z", [toPayloadDocument(sop)]);
+
+  it("validates and is left out when there are none", () => {
+    expect(validatePayload(withDocs)).toEqual([]);
+    expect(withDocs.documents?.[0].chunks).toHaveLength(1);
+    expect(buildPayload(emptyMeta(), []).documents).toBeUndefined();
+  });
+
+  it("round-trips through the importer", () => {
+    const back = parseAnyQAPairs(serializePayload(withDocs, "json"), { fileName: "bot.json" }).documents ?? [];
+    expect(back).toHaveLength(1);
+    expect(back[0]).toMatchObject({ text: sop.text, format: "markdown", chunkSize: sop.chunkSize });
+  });
+
+  it("checks overlap against chunk size", () => {
+    const overlapping = { ...withDocs, documents: [{ ...withDocs.documents![0], chunk_size: 400, chunk_overlap: 300 }] };
+    expect(validatePayload(overlapping).map(i => i.path)).toContain("documents[0].chunk_overlap");
+  });
+});
@@ -0,0 +1,150 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { DocumentFormat, PayloadDocument, RefDocument } from "./types";
+import { coerceStr, uid } from "./util";
+import { inRange } from "./models";
+
+// Reference documents: uploads are cleaned to plain text (Markdown keeps its markup)
+// and split into overlapping chunks for retrieval, all before anything is sent.
+
+export const DOCUMENT_FORMATS: DocumentFormat[] = ["markdown", "text", "html"];
+export const DOCUMENT_EXTENSIONS = ["md", "markdown", "txt", "text", "html", "htm"];
+export const DEFAULT_CHUNKING = { chunkSize: 1000, chunkOverlap: 150 };
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|li|ul|ol|h[1-6]|tr|pre)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) =>
+      e[0] === "#"
+        ? String.fromCodePoint(e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : Number(e.slice(1)))
+        : HTML_ENTITIES[e.toLowerCase()] ?? m)
+    .split("\n")
+    .map(l => l.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Whole pages: page chrome is dropped, headings become Markdown headings and
+// blocks are separated by blank lines so chunking can break between them.
+function htmlPageToText(html: string): string {
+  const body = /<body\b[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+  return htmlToText(body
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|nav|header|footer|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<\/li>/gi, "")
+    .replace(/<h([1-6])\b[^>]*>/gi, (_m, level: string) => `\n\n${"#".repeat(Number(level))} `)
+    .replace(/<\/(p|h[1-6]|ul|ol|table|pre|blockquote)>/gi, "$&\n"));
+}
+
+/** The extension decides; otherwise the content is sniffed (HTML tags, then Markdown headings). */
+export function documentFormat(fileName: string, text = ""): DocumentFormat {
+  const ext = /\.([^./\\]+)$/.exec(fileName)?.[1]?.toLowerCase();
+  if (ext === "md" || ext === "markdown") return "markdown";
+  if (ext === "html" || ext === "htm") return "html";
+  if (ext === "txt" || ext === "text") return "text";
+  return /^\s*<(!doctype html|html|body)\b/i.test(text) ? "html" : /^#{1,6}\s+\S/m.test(text) ? "markdown" : "text";
+}
+
+/** Normalizes line endings and odd whitespace, drops front matter and comments, and collapses blank runs. */
+export function cleanDocument(raw: string, format: DocumentFormat): string {
+  let text = raw.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  if (format === "html") text = htmlPageToText(text);
+  if (format === "markdown") text = text.replace(/^---\n[\s\S]*?\n---\n/, "").replace(/<!--[\s\S]*?-->/g, "");
+  return text
+    .replace(/[\u200B-\u200D\uFEFF]/g, "")
+    .replace(/\u00A0/g, " ")
+    .split("\n")
+    .map(l => l.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Where a chunk may end, best first: paragraph, line, sentence, then word breaks.
+const BREAKS = [/\n\n/g, /\n/g, /[.!?]\s/g, /\s/g];
+
+// A break is only taken in the back half of the window, so chunks never get too small.
+function breakPoint(window: string): number {
+  for (const re of BREAKS) {
+    let last = -1;
+    for (const m of window.matchAll(re)) last = m.index + m[0].length;
+    if (last >= window.length / 2) return last;
+  }
+  return window.length;
+}
+
+/**
+ * Splits text into chunks of at most `size` characters, ending at the best break in
+ * reach. Each chunk after the first repeats up to `overlap` characters of the previous
+ * one, starting at a word; the overlap is capped at half the chunk size.
+ */
+export function chunkText(text: string, size: number, overlap: number): string[] {
+  const max = Math.max(1, Math.floor(size));
+  const keep = Math.min(Math.max(0, Math.floor(overlap)), Math.floor(max / 2));
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + max);
+    if (end < text.length) end = start + breakPoint(text.slice(start, end));
+    const piece = text.slice(start, end).trim();
+    if (piece) chunks.push(piece);
+    if (end >= text.length) break;
+    let next = end - keep;
+    if (keep && !/\s/.test(text[next - 1])) {
+      const gap = text.slice(next, end).search(/\s/);
+      next = gap < 0 ? end : next + gap + 1;
+    }
+    start = Math.max(next, start + 1);
+  }
+  return chunks;
+}
+
+// Nothing is chunked while the settings are invalid: a stray size of 1 would mean a chunk per character.
+export function documentChunks(doc: RefDocument): string[] {
+  return chunkingIssue(doc) ? [] : chunkText(doc.text, doc.chunkSize, doc.chunkOverlap);
+}
+
+export function newDocument(name: string, raw: string, chunking = DEFAULT_CHUNKING): RefDocument {
+  const format = documentFormat(name, raw);
+  return { id: uid(), name, format, text: cleanDocument(raw, format), ...chunking };
+}
+
+export function toPayloadDocument(doc: RefDocument): PayloadDocument {
+  return {
+    name: doc.name.trim() || "Untitled document",
+    format: doc.format,
+    text: doc.text,
+    chunk_size: doc.chunkSize,
+    chunk_overlap: doc.chunkOverlap,
+    chunks: documentChunks(doc),
+  };
+}
+
+/** Reads a payload's document back for editing; chunks are re-derived from the text. Entries without text are dropped. */
+export function documentFromPayload(d: any): RefDocument | null {
+  const text = typeof d?.text === "string" ? d.text.trim() : "";
+  if (!text) return null;
+  const size = Number(d?.chunk_size);
+  const overlap = Number(d?.chunk_overlap);
+  return {
+    id: uid(),
+    name: coerceStr(d?.name) || "Untitled document",
+    format: DOCUMENT_FORMATS.includes(d?.format) ? d.format : "text",
+    text,
+    chunkSize: inRange("chunkSize", size) ? size : DEFAULT_CHUNKING.chunkSize,
+    chunkOverlap: inRange("chunkOverlap", overlap) ? overlap : DEFAULT_CHUNKING.chunkOverlap,
+  };
+}
+
+/** Why a document's chunking settings would be refused, or "" when they are fine. */
+export function chunkingIssue(doc: Pick<RefDocument, "chunkSize" | "chunkOverlap">): string {
+  if (!inRange("chunkSize", doc.chunkSize)) return "Chunk size is out of range.";
+  if (!inRange("chunkOverlap", doc.chunkOverlap)) return "Overlap is out of range.";
+  return doc.chunkOverlap * 2 > doc.chunkSize ? "Overlap can be at most half the chunk size." : "";
+}
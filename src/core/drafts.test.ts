@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { draftFromSaved, uniqueDraftName } from "./drafts";
+
+describe("draftFromSaved", () => {
+  it("fills defaults around legacy data", () => {
+    const migrated = draftFromSaved({ meta: { lab: "IALS", botName: "Scope" }, pairs: [{ id: "a", q: "Q", a: "A" }], separateGroups: "bad" }, "Scope");
+    expect(migrated).toMatchObject({ name: "Scope", meta: { lab: "IALS", baseModel: "qwen2.5:7b-instruct" }, separateGroups: [], deployed: null });
+    expect(migrated.pairs).toHaveLength(1);
+    expect(migrated.id).toBeTruthy();
+  });
+
+  it("defaults tag rules, documents and the eval suite", () => {
+    const draft = draftFromSaved({}, "x");
+    expect(draft.tagRules.case).toBe("keep");
+    expect(draft.documents).toEqual([]);
+    expect(draft.evals.cases).toEqual([]);
+  });
+
+  it("gives stored deployed baselines a document list", () => {
+    expect(draftFromSaved({ deployed: { slug: "b", versionId: "v1", pairs: [] } }, "x").deployed?.documents).toEqual([]);
+  });
+});
+
+describe("uniqueDraftName", () => {
+  it("numbers names that are taken", () => {
+    const taken = [{ id: "1", name: "Draft", updatedAt: "" }, { id: "2", name: "Draft (2)", updatedAt: "" }];
+    expect(uniqueDraftName("Draft", taken)).toBe("Draft (3)");
+    expect(uniqueDraftName("Other", taken)).toBe("Other");
+  });
+});
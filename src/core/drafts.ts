@@ -0,0 +1,71 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { BotMeta, QAPair, RefDocument } from "./types";
+import { coerceStr, uid } from "./util";
+import { emptyMeta } from "./bot";
+import type { DeployedBaseline } from "./deployed";
+import { DEFAULT_TAG_RULES, type TagRules } from "./tags";
+import { EMPTY_EVAL_SUITE, type EvalSuite } from "./evals";
+
+// Drafts: everything one workspace holds. Storage (IndexedDB) is the app's concern;
+// this is the record shape and how older or partial records are read back.
+
+export type DraftState = {
+  meta: BotMeta;
+  pairs: QAPair[];
+  separateGroups: string[][];
+  allowedFindings: string[];
+  deployed: DeployedBaseline | null;
+  tagRules: TagRules;
+  documents: RefDocument[];
+  evals: EvalSuite;
+};
+
+export type Draft = DraftState & { id: string; name: string; updatedAt: string };
+export type DraftSummary = Pick<Draft, "id" | "name" | "updatedAt">;
+
+export function emptyDraft(name: string, now = new Date().toISOString()): Draft {
+  return {
+    id: uid(),
+    name,
+    updatedAt: now,
+    meta: emptyMeta(),
+    pairs: [{ id: uid(), q: "", a: "", tags: [] }],
+    separateGroups: [],
+    allowedFindings: [],
+    deployed: null,
+    tagRules: DEFAULT_TAG_RULES,
+    documents: [],
+    evals: EMPTY_EVAL_SUITE,
+  };
+}
+
+// Accepts the old single-slot blob (or a stored draft) and fills in whatever is missing.
+export function draftFromSaved(saved: any, name: string): Draft {
+  const base = emptyDraft(name);
+  return {
+    ...base,
+    id: coerceStr(saved?.id) || base.id,
+    name: coerceStr(saved?.name) || name,
+    updatedAt: coerceStr(saved?.updatedAt) || base.updatedAt,
+    meta: saved?.meta ? { ...base.meta, ...saved.meta } : base.meta,
+    pairs: Array.isArray(saved?.pairs) && saved.pairs.length ? saved.pairs : base.pairs,
+    separateGroups: Array.isArray(saved?.separateGroups) ? saved.separateGroups : [],
+    allowedFindings: Array.isArray(saved?.allowedFindings) ? saved.allowedFindings : [],
+    deployed: saved?.deployed?.slug && saved?.deployed?.versionId ? { documents: [], ...saved.deployed } : null,
+    tagRules: { ...DEFAULT_TAG_RULES, ...saved?.tagRules },
+    documents: Array.isArray(saved?.documents) ? saved.documents : [],
+    evals: { ...EMPTY_EVAL_SUITE, ...saved?.evals, cases: Array.isArray(saved?.evals?.cases) ? saved.evals.cases : [] },
+  };
+}
+
+export function draftDisplayName(meta: BotMeta, fallback: string) {
+  return meta.botName.trim() || fallback;
+}
+
+export function uniqueDraftName(wanted: string, taken: DraftSummary[]) {
+  const names = new Set(taken.map(d => d.name));
+  if (!names.has(wanted)) return wanted;
+  let n = 2;
+  while (names.has(`${wanted} (${n})`)) n++;
+  return `${wanted} (${n})`;
+}
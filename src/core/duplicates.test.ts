@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import type { QAPair } from "./types";
+import { findDuplicateClusters, mergeCluster } from "./duplicates";
+
+const dupes: QAPair[] = [
+  { id: "d1", q: "When are the office hours?", a: "Tuesdays 2-4pm", tags: ["hours"] },
+  { id: "d2", q: "When are office hours?", a: "Thursdays 1-3pm", tags: [] },
+  { id: "d3", q: "How do I book the microscope?", a: "Use iLab.", tags: [] },
+  { id: "d4", q: "when are the office-hours", a: "tuesdays 2-4pm!", tags: ["faq"] },
+];
+
+describe("findDuplicateClusters", () => {
+  it("clusters similar questions and flags differing answers", () => {
+    const clusters = findDuplicateClusters(dupes, 0.6);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0]).toMatchObject({ ids: ["d1", "d2", "d4"], conflicting: true });
+  });
+
+  it("does not flag answers that only differ in case and punctuation", () => {
+    expect(findDuplicateClusters(dupes.filter(p => p.id !== "d2"), 0.6)[0].conflicting).toBe(false);
+  });
+
+  it("leaves groups kept separate alone", () => {
+    expect(findDuplicateClusters(dupes, 0.6, [["d1", "d2", "d4"]])).toEqual([]);
+  });
+});
+
+describe("mergeCluster", () => {
+  it("folds the other questions into the kept pair", () => {
+    const folded = mergeCluster(dupes, ["d1", "d2", "d4"], "d1");
+    expect(folded.map(p => p.id)).toEqual(["d1", "d3"]);
+    expect(folded[0].variants).toEqual(["When are office hours?"]);
+    expect(folded[0].tags).toEqual(["hours", "faq"]);
+  });
+});
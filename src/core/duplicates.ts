@@ -0,0 +1,80 @@
+import type { QAPair } from "./types";
+import { normalizeQuestion, uniqueVariants } from "./util";
+
+// Near-duplicate questions, and contradictions among them: pairs that ask the same
+// thing but answer differently.
+
+export type DupCluster = { ids: string[]; similarity: number; conflicting: boolean };
+
+// Character trigrams over the normalized text; robust to typos and small rewordings.
+function shingles(s: string, n = 3): Set<string> {
+  const t = ` ${normalizeQuestion(s)} `;
+  const out = new Set<string>();
+  for (let i = 0; i + n <= t.length; i++) out.add(t.slice(i, i + n));
+  return out;
+}
+
+function jaccard(x: Set<string>, y: Set<string>): number {
+  if (!x.size || !y.size) return 0;
+  const [small, big] = x.size <= y.size ? [x, y] : [y, x];
+  if (small.size / big.size < 0.2) return 0;
+  let inter = 0;
+  for (const s of small) if (big.has(s)) inter++;
+  return inter / (x.size + y.size - inter);
+}
+
+/**
+ * Clusters pairs whose questions (or any of their variants) are at least `threshold`
+ * similar, via union-find over all question pairs. Pairs listed together in
+ * `separate` were reviewed and kept apart on purpose, so they are never linked.
+ * A cluster is `conflicting` when its members' normalized answers differ.
+ */
+export function findDuplicateClusters(pairs: QAPair[], threshold = 0.6, separate: string[][] = []): DupCluster[] {
+  const items = pairs
+    .filter(p => (p.q || "").trim())
+    .map(p => ({ pair: p, sets: [p.q, ...(p.variants ?? [])].map(q => shingles(q)) }));
+  const keptApart = new Set(separate.flatMap(g => g.flatMap(a => g.filter(b => b !== a).map(b => `${a}|${b}`))));
+
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const edges: Array<[number, number]> = [];
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (keptApart.has(`${items[i].pair.id}|${items[j].pair.id}`)) continue;
+      let sim = 0;
+      for (const x of items[i].sets) for (const y of items[j].sets) sim = Math.max(sim, jaccard(x, y));
+      if (sim < threshold) continue;
+      parent[find(j)] = find(i);
+      edges.push([i, sim]);
+    }
+  }
+  const best = new Map<number, number>();
+  for (const [i, sim] of edges) best.set(find(i), Math.max(best.get(find(i)) ?? 0, sim));
+
+  const groups = new Map<number, QAPair[]>();
+  items.forEach((it, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), it.pair]);
+  });
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      ids: members.map(m => m.id),
+      similarity: best.get(root) ?? 0,
+      conflicting: new Set(members.map(m => normalizeQuestion(m.a || ""))).size > 1,
+    }))
+    .sort((x, y) => Number(y.conflicting) - Number(x.conflicting) || y.similarity - x.similarity);
+}
+
+// Folds a cluster into `keepId`: other questions become its variants, tags are unioned,
+// the kept pair stays in place and the rest are removed.
+export function mergeCluster(pairs: QAPair[], ids: string[], keepId: string): QAPair[] {
+  const members = pairs.filter(p => ids.includes(p.id));
+  const keep = members.find(p => p.id === keepId);
+  if (!keep) return pairs;
+  const variants = uniqueVariants(keep.q, members.flatMap(m => [m.q, ...(m.variants ?? [])]));
+  const tags = Array.from(new Set(members.flatMap(m => m.tags ?? [])));
+  return pairs
+    .filter(p => p.id === keepId || !ids.includes(p.id))
+    .map(p => (p.id === keepId ? { ...p, variants, tags } : p));
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { EvalCase, EvalResult } from "./evals";
+import { compareRuns, judgeReply, parseChatReply, runEvalCase, toJUnitXml, wordDiff } from "./evals";
+
+const evalCase: EvalCase = { id: "c1", question: "Where is the lab?", keywords: ["Room 204", " "], pairId: "p1", forbidden: ["I don't know"] };
+
+const evalResult = (caseId: string, passed: boolean, answer = "A"): EvalResult => ({
+  caseId, question: `Q ${caseId}`, passed, failures: passed ? [] : ['missing "x"'], answer, latencyMs: 1200,
+});
+
+describe("judging replies", () => {
+  it("passes a reply citing the expected question", () => {
+    const good = parseChatReply({ answer: "We are in Room 204.", sources: [{ id: "p9", q: "Where is the lab?" }] });
+    expect(judgeReply(evalCase, good, "where is the lab")).toEqual([]);
+  });
+
+  it("lists every failure", () => {
+    const bad = parseChatReply({ reply: "I don't know, maybe room 2045", pair_id: "p2" });
+    expect(judgeReply(evalCase, bad, "Where is the lab?")).toEqual(['missing "Room 204"', 'says forbidden "I don\'t know"', "used pair p2 instead of the expected pair"]);
+  });
+
+  it("reads the reply shapes backends use", () => {
+    expect(parseChatReply({ message: { content: " Hi " } }).answer).toBe("Hi");
+    expect(parseChatReply("plain").sources).toEqual([]);
+  });
+});
+
+describe("runEvalCase", () => {
+  it("asks the bot and judges the reply", async () => {
+    const fetchImpl = (async () => new Response(JSON.stringify({ answer: "Room 204", sources: [{ id: "p1" }] }))) as unknown as typeof fetch;
+    const result = await runEvalCase(evalCase, "http://b/chat/x", undefined, fetchImpl);
+    expect(result).toMatchObject({ caseId: "c1", passed: true, sourceId: "p1", answer: "Room 204" });
+  });
+
+  it("records an error rather than failures when the bot cannot be reached", async () => {
+    const fetchImpl = (async () => new Response("down", { status: 502 })) as unknown as typeof fetch;
+    const result = await runEvalCase(evalCase, "http://b/chat/x", undefined, fetchImpl);
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual([]);
+    expect(result.error).toContain("502");
+  });
+});
+
+describe("comparing runs", () => {
+  const before = { at: "2026-01-01T00:00:00.000Z", endpoint: "http://b/chat/x", results: [evalResult("a", true), evalResult("b", false)] };
+  const after = { ...before, results: [evalResult("a", false), evalResult("b", true), evalResult("c", true)] };
+
+  it("marks regressions, fixes and new cases", () => {
+    const compared = compareRuns(before, after);
+    expect(compared.get("a")?.change).toBe("regressed");
+    expect(compared.get("b")?.change).toBe("fixed");
+    expect(compared.get("c")?.change).toBe("new");
+  });
+
+  it("diffs answers by word", () => {
+    expect(wordDiff("open 9 to 5", "open 10 to 5")).toEqual([
+      { kind: "same", text: "open " }, { kind: "removed", text: "9" }, { kind: "added", text: "10" }, { kind: "same", text: " to 5" },
+    ]);
+  });
+
+  it("writes escaped JUnit XML with failures and errors", () => {
+    const junit = toJUnitXml({ ...after, results: [evalResult("a", false, "x < y & \u0007z"), { ...evalResult("e", false), error: "HTTP 502" }] }, "ials-scope");
+    expect(junit).toContain('tests="2" failures="1" errors="1"');
+    expect(junit).toContain("x &lt; y &amp; z");
+    expect(junit).toContain('<error message="HTTP 502"/>');
+  });
+});
@@ -0,0 +1,202 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { coerceStr, normalizeQuestion } from "./util";
+
+// Regression tests for a deployed bot: questions sent to its chat endpoint, with the
+// answer checked for expected keywords, the pair it was drawn from and forbidden phrases.
+
+export type EvalCase = {
+  id: string;
+  question: string;
+  keywords: string[]; // all must appear in the answer; may hold blanks while editing
+  pairId?: string; // editor id of the pair the answer should come from
+  forbidden: string[]; // none may appear in the answer; may hold blanks while editing
+};
+
+export type EvalResult = {
+  caseId: string;
+  question: string;
+  passed: boolean;
+  failures: string[]; // why it did not pass; [] when it did
+  answer: string;
+  latencyMs: number;
+  sourceId?: string; // id of the pair the bot reported using
+  error?: string; // the request itself failed
+};
+
+export type EvalRun = { at: string; endpoint: string; results: EvalResult[] };
+
+export type EvalSuite = {
+  endpoint: string; // blank = the default chat endpoint for the active backend
+  cases: EvalCase[];
+  lastRun?: EvalRun;
+  previousRun?: EvalRun; // kept so the report can show what changed
+};
+
+export const EMPTY_EVAL_SUITE: EvalSuite = { endpoint: "", cases: [] };
+
+const EVAL_TIMEOUT_MS = 30_000;
+
+export type ChatReply = { answer: string; sources: Array<{ id?: string; q?: string }> };
+
+// Deployed bots answer at {base}/chat/{slug}; `npm run mock:backend` serves it too.
+export function chatEndpoint(base: string, slug: string) {
+  return `${base.replace(/\/+$/, "")}/chat/${encodeURIComponent(slug)}`;
+}
+
+/**
+ * Reads a chat response: `{ answer | reply, sources?: [{ id, q }] }`, an Ollama-style
+ * `{ message: { content } }` or plain text. The first source is the pair that was used.
+ */
+export function parseChatReply(data: any): ChatReply {
+  if (typeof data === "string") return { answer: data.trim(), sources: [] };
+  const answer = coerceStr(data?.answer ?? data?.reply ?? data?.message?.content ?? data?.text);
+  const raw = Array.isArray(data?.sources) ? data.sources : data?.pair_id ? [{ id: data.pair_id }] : [];
+  const sources = raw.map((s: any) => ({ id: coerceStr(s?.id) || undefined, q: coerceStr(s?.q ?? s?.question) || undefined }));
+  return { answer, sources };
+}
+
+export async function askBot(endpoint: string, question: string, fetchImpl: typeof fetch = fetch, timeoutMs = EVAL_TIMEOUT_MS): Promise<ChatReply> {
+  const res = await fetchImpl(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message: question }),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const text = await res.text();
+  try {
+    return parseChatReply(JSON.parse(text));
+  } catch {
+    return parseChatReply(text);
+  }
+}
+
+// Whole words, ignoring case and punctuation: "room 204" matches "Room 204." but not "room 2045".
+function mentions(text: string, phrase: string) {
+  const needle = normalizeQuestion(phrase);
+  return Boolean(needle) && ` ${normalizeQuestion(text)} `.includes(` ${needle} `);
+}
+
+/** Everything wrong with a reply; `expectedQuestion` is the expected pair's current question. */
+export function judgeReply(c: EvalCase, reply: ChatReply, expectedQuestion?: string): string[] {
+  const failures: string[] = [];
+  const missing = c.keywords.map(k => k.trim()).filter(k => k && !mentions(reply.answer, k));
+  if (missing.length) failures.push(`missing ${missing.map(k => `"${k}"`).join(", ")}`);
+  const said = c.forbidden.map(f => f.trim()).filter(f => f && mentions(reply.answer, f));
+  if (said.length) failures.push(`says forbidden ${said.map(f => `"${f}"`).join(", ")}`);
+  if (c.pairId) {
+    // Ids only match for bots loaded from the backend, so the question is compared as well
+    const used = reply.sources[0];
+    const sameQuestion = Boolean(expectedQuestion && used?.q && normalizeQuestion(used.q) === normalizeQuestion(expectedQuestion));
+    if (!used) failures.push("the bot did not report which pair it used");
+    else if (used.id !== c.pairId && !sameQuestion) failures.push(`used ${used.q ? `"${used.q}"` : `pair ${used.id}`} instead of the expected pair`);
+  }
+  return failures;
+}
+
+export async function runEvalCase(
+  c: EvalCase,
+  endpoint: string,
+  expectedQuestion?: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<EvalResult> {
+  const started = performance.now();
+  const base = { caseId: c.id, question: c.question.trim() };
+  try {
+    const reply = await askBot(endpoint, base.question, fetchImpl);
+    const failures = judgeReply(c, reply, expectedQuestion);
+    const latencyMs = Math.round(performance.now() - started);
+    return { ...base, passed: !failures.length, failures, answer: reply.answer, latencyMs, sourceId: reply.sources[0]?.id };
+  } catch (e: any) {
+    const error = e?.name === "TimeoutError" ? `no reply within ${EVAL_TIMEOUT_MS / 1000} s` : `${e?.message || e}`;
+    return { ...base, passed: false, failures: [], answer: "", latencyMs: Math.round(performance.now() - started), error };
+  }
+}
+
+export type EvalChange = "new" | "fixed" | "regressed" | "unchanged";
+
+/** How each result compares with the same case in the previous run. */
+export function compareRuns(previous: EvalRun | undefined, next: EvalRun): Map<string, { change: EvalChange; before?: EvalResult }> {
+  const before = new Map((previous?.results ?? []).map(r => [r.caseId, r]));
+  return new Map(next.results.map(r => {
+    const prev = before.get(r.caseId);
+    const change: EvalChange = !prev ? "new" : prev.passed === r.passed ? "unchanged" : r.passed ? "fixed" : "regressed";
+    return [r.caseId, { change, before: prev }];
+  }));
+}
+
+export type DiffPart = { kind: "same" | "added" | "removed"; text: string };
+
+/** Word-level diff (longest common subsequence); very long texts are shown as replaced wholesale. */
+export function wordDiff(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  if (a.length * b.length > 250_000) {
+    const whole: DiffPart[] = [{ kind: "removed", text: before }, { kind: "added", text: after }];
+    return whole.filter(p => p.text);
+  }
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart["kind"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  return parts;
+}
+
+// Characters XML 1.0 cannot carry at all are dropped rather than escaped.
+function xmlEscape(s: string) {
+  return s
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** The run as a JUnit report (one testsuite), for CI dashboards. Request errors are <error>, failed checks <failure>. */
+export function toJUnitXml(run: EvalRun, suiteName: string): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const failures = run.results.filter(r => !r.passed && !r.error).length;
+  const errors = run.results.filter(r => r.error).length;
+  const total = seconds(run.results.reduce((n, r) => n + r.latencyMs, 0));
+  const name = xmlEscape(suiteName);
+  const cases = run.results.map(r => {
+    const open = `    <testcase name="${xmlEscape(r.question)}" classname="${name}" time="${seconds(r.latencyMs)}"`;
+    const body = [
+      ...(r.error ? [`      <error message="${xmlEscape(r.error)}"/>`] : []),
+      ...(!r.passed && !r.error ? [`      <failure message="${xmlEscape(r.failures.join("; "))}">${xmlEscape(r.failures.join("\n"))}</failure>`] : []),
+      ...(r.answer ? [`      <system-out>${xmlEscape(r.answer)}</system-out>`] : []),
+    ];
+    return body.length ? [`${open}>`, ...body, "    </testcase>"].join("\n") : `${open}/>`;
+  });
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="${name}" tests="${run.results.length}" failures="${failures}" errors="${errors}" time="${total}">`,
+    `  <testsuite name="${name}" tests="${run.results.length}" failures="${failures}" errors="${errors}" time="${total}" timestamp="${xmlEscape(run.at)}">`,
+    `    <properties><property name="endpoint" value="${xmlEscape(run.endpoint)}"/></properties>`,
+    ...cases,
+    "  </testsuite>",
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { ExportFormat, ExportPayload } from "./index";
+import { EXPORT_FORMATS, serializePayload } from "./export";
+import { parseAnyQAPairs } from "./import";
+
+const payload: ExportPayload = {
+  bot: {
+    name: "Scope Bot",
+    lab: "IALS",
+    owner_email: "prof@umass.edu",
+    description: "Line one\nline two",
+    slug: "ials-scope-bot",
+    model: "qwen2.5:7b-instruct",
+    embed_model: "nomic-embed-text",
+    temperature: 0.3,
+    top_p: 0.9,
+    greeting: "Hi!",
+    refused_topics: ["exam answers"],
+    answer_format: "markdown",
+  },
+  pairs: [
+    { q: "Where is the lab?", a: "LSL, room S330.\n\nUse the \"east\" door, then turn left.", tags: ["location", "access"], variants: ["Lab location?", "How do I find the lab, exactly?"] },
+    { q: "Cost, per hour?", a: "$40", tags: undefined },
+  ],
+  created_at: "2025-09-16T00:00:00.000Z",
+  version: "2025-09-16",
+};
+
+describe("export formats round-trip through the importer", () => {
+  it.each(Object.keys(EXPORT_FORMATS) as ExportFormat[])("%s keeps every pair", format => {
+    const back = parseAnyQAPairs(serializePayload(payload, format));
+    expect(back.pairs.map(p => ({ q: p.q, a: p.a, tags: p.tags ?? [], variants: p.variants ?? [] }))).toEqual(
+      payload.pairs.map(p => ({ q: p.q, a: p.a, tags: p.tags ?? [], variants: p.variants ?? [] }))
+    );
+  });
+
+  it.each(["json", "modelfile"] as ExportFormat[])("%s keeps bot settings", format => {
+    const { metaPatch } = parseAnyQAPairs(serializePayload(payload, format));
+    expect(metaPatch).toMatchObject({ botName: "Scope Bot", temperature: 0.3, greeting: "Hi!", refusedTopics: ["exam answers"] });
+  });
+});
+
+describe("languages in tabular exports", () => {
+  const lingual: ExportPayload = {
+    ...payload,
+    pairs: [
+      { q: "Where is the lab?", a: "Room 204.", lang: "en", translation_group: "g1" },
+      { q: "¿Dónde está el laboratorio?", a: "Sala 204.", tags: ["location"], lang: "es", translation_group: "g1" },
+      { q: "Cost, per hour?", a: "$40" },
+    ],
+  };
+
+  it("writes lang and translation_group columns only when some pair has them", () => {
+    expect(serializePayload(lingual, "csv").split("\n")[0]).toBe("q,a,tags,lang,translation_group");
+    expect(serializePayload(payload, "csv").split("\n")[0]).toBe("q,a,tags,variants");
+  });
+
+  it.each(["csv", "modelfile"] as ExportFormat[])("%s keeps languages and translation groups", format => {
+    const back = parseAnyQAPairs(serializePayload(lingual, format));
+    expect(back.pairs.map(p => [p.q, p.lang, p.group])).toEqual(lingual.pairs.map(p => [p.q, p.lang, p.translation_group]));
+  });
+
+  it("reads the columns from TSV under their aliases", () => {
+    const tsv = parseAnyQAPairs("question\tanswer\tlanguage\ttranslation group\nHola?\tSí\tes\tg1\nHi?\tYes\tEnglish\t\n");
+    expect(tsv.pairs.map(p => [p.lang, p.group])).toEqual([["es", "g1"], [undefined, undefined]]);
+  });
+});
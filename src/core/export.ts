@@ -0,0 +1,82 @@
+import type { ExportPayload, PayloadPair } from "./types";
+import { behaviorPrompt } from "./bot";
+
+export type ExportFormat = "json" | "jsonl" | "csv" | "modelfile";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; ext: string; mime: string }> = {
+  json: { label: "JSON (full payload)", ext: "json", mime: "application/json" },
+  jsonl: { label: "JSONL (one pair per line)", ext: "jsonl", mime: "application/x-ndjson" },
+  csv: { label: "CSV (q, a, tags, variants, lang)", ext: "csv", mime: "text/csv" },
+  modelfile: { label: "Ollama Modelfile", ext: "Modelfile", mime: "text/plain" },
+};
+
+function csvField(s: string): string {
+  return /[",\r\n]/.test(s) || s !== s.trim() ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// The variants ("|"-separated), lang and translation_group columns are only written
+// when some pair has a value for them.
+function toCsv(payload: ExportPayload): string {
+  const optional: Array<[string, (p: PayloadPair) => string]> = [
+    ["variants", p => (p.variants || []).join(" | ")],
+    ["lang", p => p.lang || ""],
+    ["translation_group", p => p.translation_group || ""],
+  ];
+  const columns = optional.filter(([, cell]) => payload.pairs.some(p => cell(p)));
+  const rows = payload.pairs.map(p =>
+    [p.q, p.a, (p.tags || []).join(","), ...columns.map(([, cell]) => cell(p))].map(csvField).join(",")
+  );
+  return [["q", "a", "tags", ...columns.map(([name]) => name)].join(","), ...rows].join("\n") + "\n";
+}
+
+// Modelfiles have no escape for """ inside SYSTEM, so it is softened to '''.
+export function toModelfile(payload: ExportPayload): string {
+  const { bot } = payload;
+  const intro = [
+    `You are ${bot.name}${bot.lab ? `, the assistant for ${bot.lab}` : ""}.`,
+    bot.description || "",
+    "Answer using the Q&A pairs below. If none of them covers the question, say you don't know.",
+    ...behaviorPrompt({
+      systemPrompt: bot.system_prompt,
+      fallbackMessage: bot.fallback_message,
+      escalationContact: bot.escalation_contact,
+      refusedTopics: bot.refused_topics,
+    }),
+  ].filter(Boolean).join("\n");
+  const body = payload.pairs
+    .filter(p => p.q && p.a)
+    .map(p => [
+      `Q: ${p.q}`,
+      ...(p.variants?.length ? [`Also asked as: ${p.variants.join(" | ")}`] : []),
+      `A: ${p.a}`,
+      ...(p.tags?.length ? [`Tags: ${p.tags.join(", ")}`] : []),
+      ...(p.lang ? [`Language: ${p.lang}`] : []),
+      ...(p.translation_group ? [`Translation group: ${p.translation_group}`] : []),
+    ].join("\n"))
+    .join("\n\n");
+  return [
+    `# Generated by UMass Lab Chatbot Builder (${payload.version}) at ${payload.created_at}`,
+    `# bot: ${JSON.stringify(bot)}`,
+    `FROM ${bot.model}`,
+    `PARAMETER temperature ${bot.temperature}`,
+    `PARAMETER top_p ${bot.top_p}`,
+    ...(bot.greeting ? [`MESSAGE assistant ${bot.greeting.replace(/\s+/g, " ")}`] : []),
+    `SYSTEM """`,
+    `${intro}\n\n${body}`.replace(/"""/g, "'''"),
+    `"""`,
+    "",
+  ].join("\n");
+}
+
+export function serializePayload(payload: ExportPayload, format: ExportFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(payload, null, 2) + "\n";
+    case "jsonl":
+      return payload.pairs.map(p => JSON.stringify(p)).join("\n") + "\n";
+    case "csv":
+      return toCsv(payload);
+    case "modelfile":
+      return toModelfile(payload);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { emptyMeta } from "./bot";
+import { EMPTY_HISTORY, HISTORY_LIMIT, pairEditLabel, recordHistory, redoHistory, undoHistory, type Snapshot } from "./history";
+
+const s0: Snapshot = { meta: emptyMeta(), pairs: [] };
+const s1: Snapshot = { meta: { ...emptyMeta(), lab: "A" }, pairs: [] };
+const s2: Snapshot = { meta: { ...emptyMeta(), lab: "AB" }, pairs: [] };
+
+describe("recordHistory", () => {
+  it("collapses typing bursts into one step", () => {
+    const h = recordHistory(recordHistory(EMPTY_HISTORY, s0, "Edit lab", "meta:lab", 0), s1, "Edit lab", "meta:lab", 500);
+    expect(h.past).toHaveLength(1);
+    expect(h.past[0].meta).toBe(s0.meta);
+  });
+
+  it("stays bounded", () => {
+    let h = EMPTY_HISTORY;
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) h = recordHistory(h, s0, `step ${i}`);
+    expect(h.past).toHaveLength(HISTORY_LIMIT);
+    expect(h.past[0].label).toBe("step 5");
+  });
+});
+
+describe("undo and redo", () => {
+  const h = recordHistory(recordHistory(EMPTY_HISTORY, s0, "Edit lab", "meta:lab", 0), s2, "Add pair", undefined, 5000);
+
+  it("undoes several steps at once and redoes the first of them", () => {
+    const back = undoHistory(h, { meta: s2.meta, pairs: [{ id: "n", q: "", a: "" }] }, 2);
+    expect(back?.restore).toBe(h.past[0]);
+    expect(back?.history.past).toHaveLength(0);
+    expect(back?.history.future).toHaveLength(2);
+    const fwd = back && redoHistory(back.history, back.restore);
+    expect(fwd?.restore.meta).toBe(s2.meta);
+    expect(fwd?.history.past[0].label).toBe("Edit lab");
+  });
+
+  it("does nothing on empty stacks", () => {
+    expect(undoHistory(EMPTY_HISTORY, s0)).toBeNull();
+    expect(redoHistory(h, s0)).toBeNull();
+  });
+});
+
+describe("pairEditLabel", () => {
+  it("names the edited field", () => {
+    expect(pairEditLabel({ a: "x" }, 2)).toBe("Edit answer #3");
+  });
+});
@@ -0,0 +1,50 @@
+import type { BotMeta, QAPair } from "./types";
+
+// Undo / redo over the bot details and pairs, as labelled snapshots.
+
+// Snapshots share unchanged objects with the live state, so the cost per step is
+// roughly one array of pair references; the step count is capped on top of that.
+export const HISTORY_LIMIT = 100;
+// Edits to the same field closer together than this collapse into one step
+export const HISTORY_BURST_MS = 1000;
+
+export type Snapshot = { meta: BotMeta; pairs: QAPair[] };
+// The state before a labelled change; `group` identifies edits that may coalesce
+export type HistoryEntry = Snapshot & { label: string; at: number; group?: string };
+export type History = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+export function recordHistory(h: History, before: Snapshot, label: string, group?: string, now = Date.now()): History {
+  const last = h.past[h.past.length - 1];
+  if (group && last?.group === group && now - last.at < HISTORY_BURST_MS) {
+    return { past: [...h.past.slice(0, -1), { ...last, at: now }], future: [] };
+  }
+  const past = [...h.past, { ...before, label, at: now, group }];
+  return { past: past.slice(-HISTORY_LIMIT), future: [] };
+}
+
+/** Steps back `steps` entries; returns the snapshot to restore, or null when there is nothing to undo. */
+export function undoHistory(h: History, current: Snapshot, steps = 1): { history: History; restore: Snapshot } | null {
+  if (steps < 1 || h.past.length < steps) return null;
+  const past = h.past.slice(0, h.past.length - steps);
+  const undone = h.past.slice(past.length);
+  // Each undone entry moves to `future` holding the state after its change
+  const afters = [...undone.slice(1).map(e => ({ meta: e.meta, pairs: e.pairs })), current];
+  const future = undone.map((e, i) => ({ ...afters[i], label: e.label, at: e.at })).reverse();
+  return { history: { past, future: [...h.future, ...future] }, restore: undone[0] };
+}
+
+export function redoHistory(h: History, current: Snapshot): { history: History; restore: Snapshot } | null {
+  const next = h.future[h.future.length - 1];
+  if (!next) return null;
+  return {
+    history: { past: [...h.past, { ...current, label: next.label, at: next.at }], future: h.future.slice(0, -1) },
+    restore: next,
+  };
+}
+
+export function pairEditLabel(patch: Partial<QAPair>, idx: number) {
+  const field = "q" in patch ? "question" : "a" in patch ? "answer" : "tags" in patch ? "tags" : "variants" in patch ? "alternate phrasings" : "lang" in patch ? "language" : "pair";
+  return `Edit ${field} #${idx + 1}`;
+}
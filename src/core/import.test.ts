@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { PAYLOAD_VERSION } from "./types";
+import { extractQAFromObject, parseAnyQAPairs, rejectReason } from "./import";
+
+const validBot = { name: "Bot", lab: "IALS", owner_email: "a@umass.edu", slug: "ials-bot", model: "m", embed_model: "e", temperature: 0.2, top_p: 0.95, answer_format: "markdown" };
+
+describe("importers", () => {
+  it("reads CSV with quoted fields and header aliases", () => {
+    const csv = parseAnyQAPairs('Topic,Question,Answer\nhours,"When, exactly?","Tue ""2pm""\nThu 3pm"\n');
+    expect(csv.format).toBe("csv");
+    expect(csv.pairs[0]).toMatchObject({ q: "When, exactly?", a: 'Tue "2pm"\nThu 3pm', tags: ["hours"] });
+  });
+
+  it("applies an explicit column mapping", () => {
+    const remapped = parseAnyQAPairs("x,y\nQ1,A1\n", { fileName: "faq.csv", columns: { q: 1, a: 0, tags: -1, variants: -1, lang: -1, group: -1 } });
+    expect(remapped.pairs[0]).toMatchObject({ q: "A1", a: "Q1" });
+  });
+
+  it("reads TSV", () => {
+    const tsv = parseAnyQAPairs("question\tanswer\nQ1\tA, with comma\n");
+    expect(tsv.format).toBe("tsv");
+    expect(tsv.pairs[0].a).toBe("A, with comma");
+  });
+
+  it("reads Markdown FAQs, with section titles as tags and fenced headings ignored", () => {
+    const md = parseAnyQAPairs("# FAQ\n\n## Booking\n\n### How do I book?\nUse iLab.\n\n```\n## not a heading\n```\n\n### Cost?\n$40/h\n");
+    expect(md.format).toBe("markdown");
+    expect(md.pairs).toHaveLength(2);
+    expect(md.pairs[0].tags).toEqual(["Booking"]);
+    expect(md.pairs[0].a).toContain("## not a heading");
+  });
+
+  it("reads HTML definition lists and details blocks", () => {
+    const html = parseAnyQAPairs("<dl><dt>Where?</dt><dd>Room &amp; 12</dd><dt>When?</dt><dd>Now</dd></dl><details><summary>Why?</summary><p>Because</p></details>", { fileName: "faq.html" });
+    expect(html.pairs).toHaveLength(3);
+    expect(html.pairs).toContainEqual(expect.objectContaining({ q: "Where?", a: "Room & 12" }));
+    expect(html.pairs).toContainEqual(expect.objectContaining({ q: "Why?", a: "Because" }));
+  });
+});
+
+describe("per-row diagnostics", () => {
+  it("keeps line numbers for accepted and rejected JSONL rows", () => {
+    const jsonl = parseAnyQAPairs('{"q":"Q1","a":"A1"}\n{"q":"Q2"}\n{oops\n\n{"q":" ","a":"A4"}\n');
+    expect(jsonl.pairs).toHaveLength(1);
+    expect(jsonl.pairs[0].line).toBe(1);
+    expect((jsonl.rejected ?? []).map(r => `${r.line}:${r.reason.split(" ").slice(0, 2).join("-")}`)).toEqual(["2:missing-answer", "3:invalid-JSON", "5:empty-question"]);
+  });
+
+  it("reports CSV rejects on the line they end at", () => {
+    const rejected = parseAnyQAPairs('q,a\n"multi\nline",A1\nQ2,\n').rejected ?? [];
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0]).toMatchObject({ line: 4, reason: "empty answer" });
+  });
+
+  it("explains an empty questions array", () => {
+    expect(rejectReason({ questions: [], a: "x" })).toBe("empty question");
+  });
+});
+
+describe("alternate phrasings", () => {
+  it("turns questions arrays and aliases into deduped variants", () => {
+    const multi = extractQAFromObject({ questions: ["Hours?", "When open?", "hours"], aliases: "Opening times? | When open?", answer: "9-5" });
+    expect(multi?.q).toBe("Hours?");
+    expect(multi?.variants).toEqual(["When open?", "Opening times?"]);
+  });
+});
+
+describe("languages", () => {
+  it("reads language codes and translation groups, dropping names that are not codes", () => {
+    expect(extractQAFromObject({ q: "Q", a: "A", language: "pt-BR", translation_group: "g1" })).toMatchObject({ lang: "pt-BR", group: "g1" });
+    expect(extractQAFromObject({ q: "Q", a: "A", lang: "Spanish" })?.lang).toBeUndefined();
+  });
+});
+
+describe("exported payloads", () => {
+  it("reports upgrades and schema problems as notices", () => {
+    const old = parseAnyQAPairs(JSON.stringify({
+      version: "2025-09-16",
+      created_at: "2025-09-16T00:00:00Z",
+      bot: { ...validBot, owner_email: "" },
+      pairs: [{ q: "Q", a: "A" }],
+    }));
+    expect(old.notices).toEqual(["Upgraded from payload version 2025-09-16.", "bot.owner_email: empty"]);
+  });
+
+  it("does not report the current version as an upgrade", () => {
+    const current = parseAnyQAPairs(JSON.stringify({ version: PAYLOAD_VERSION, created_at: "2025-09-16T00:00:00Z", bot: validBot, pairs: [{ q: "Q", a: "A" }] }));
+    expect(current.notices ?? []).toEqual([]);
+  });
+});
@@ -0,0 +1,472 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { BotMeta, RefDocument } from "./types";
+import { PAYLOAD_VERSION } from "./types";
+import { coerceStr, uniqueVariants } from "./util";
+import { formatIssue, migratePayload, validatePayload } from "./schema";
+import { documentFromPayload, htmlToText } from "./documents";
+import { isLanguageCode } from "./languages";
+
+// Flexible import: JSON/JSONL, CSV/TSV, Markdown and HTML FAQs and Modelfiles, with
+// every skipped row reported alongside the pairs that were read.
+
+const Q_KEYS = ["q", "question", "prompt", "ask", "query", "Q"];
+const A_KEYS = ["a", "answer", "response", "text", "A"];
+// Alternate phrasings; `questions` arrays instead hold the primary question first
+const VARIANT_KEYS = ["variants", "aliases", "paraphrases", "alternates", "alternate_questions"];
+const LANG_KEYS = ["lang", "language", "locale"];
+const GROUP_KEYS = ["translation_group", "translationGroup"];
+
+// Accepts an array or a "|"-separated string (commas are common inside questions).
+function splitVariants(x: any): string[] {
+  return (Array.isArray(x) ? x : typeof x === "string" ? x.split("|") : []).map(coerceStr).filter(Boolean);
+}
+
+// The question key of an object, including a `questions` array (or an array under a question key).
+function questionKey(obj: any): string | undefined {
+  return Q_KEYS.find(k => k in obj) ?? (Array.isArray(obj.questions) ? "questions" : undefined);
+}
+
+export type ExtractedQA = { q: string; a: string; tags?: string[]; variants?: string[]; lang?: string; group?: string };
+
+export function extractQAFromObject(obj: any): ExtractedQA | null {
+  if (!obj || typeof obj !== "object") return null;
+
+  const qKey = questionKey(obj);
+  const aKey = A_KEYS.find(k => k in obj);
+  if (!qKey || !aKey) return null;
+
+  const [q = "", ...alternates] = Array.isArray(obj[qKey]) ? splitVariants(obj[qKey]) : [coerceStr(obj[qKey])];
+  const a = coerceStr(obj[aKey]);
+  if (!q || !a) return null;
+
+  let tags: string[] | undefined;
+  if (Array.isArray((obj as any).tags)) {
+    const t = (obj as any).tags.map(coerceStr).filter(Boolean);
+    tags = t.length ? t : undefined;
+  }
+  const variants = uniqueVariants(q, [...alternates, ...VARIANT_KEYS.flatMap(k => splitVariants(obj[k]))]);
+  // Codes that are not language codes ("Spanish") are dropped and left to detection
+  const lang = LANG_KEYS.map(k => coerceStr(obj[k])).find(Boolean);
+  const group = GROUP_KEYS.map(k => coerceStr(obj[k])).find(Boolean);
+  return {
+    q,
+    a,
+    tags,
+    variants: variants.length ? variants : undefined,
+    lang: lang && isLanguageCode(lang) ? lang : undefined,
+    group: group || undefined,
+  };
+
+}
+
+function extractQAFromArray(arr: any[]): ExtractedQA | null {
+  if (!Array.isArray(arr)) return null;
+  if (arr.length < 2) return null;
+  const q = coerceStr(arr[0]);
+  const a = coerceStr(arr[1]);
+  if (!q || !a) return null;
+  // optional 3rd item can be tags array or comma string
+  let tags: string[] | undefined;
+  if (arr.length >= 3) {
+    const raw = Array.isArray(arr[2]) ? arr[2] : String(arr[2] ?? "").split(",");
+    const t = raw.map(coerceStr).filter(Boolean);
+    tags = t.length ? t : undefined;
+  }
+  // optional 4th item: alternate phrasings (array or "|"-separated)
+  const variants = uniqueVariants(q, splitVariants(arr[3]));
+  // optional 5th and 6th items: language code and translation group
+  const lang = coerceStr(arr[4]);
+  const group = coerceStr(arr[5]);
+  return {
+    q,
+    a,
+    tags,
+    variants: variants.length ? variants : undefined,
+    lang: lang && isLanguageCode(lang) ? lang : undefined,
+    group: group || undefined,
+  };
+
+}
+
+// A parsed row plus where it came from: `line` for line-oriented formats, `item` (1-based) otherwise.
+export type ImportRow = ExtractedQA & { line?: number; item?: number };
+export type ImportIssue = { line?: number; item?: number; reason: string; excerpt: string };
+
+// Explains why extractQAFromObject / extractQAFromArray returned null for an item.
+export function rejectReason(item: any): string {
+  if (Array.isArray(item)) {
+    if (item.length < 2) return "needs a question and an answer column";
+    return coerceStr(item[0]) ? "empty answer" : "empty question";
+  }
+  if (!item || typeof item !== "object") return "not a Q/A object or [q, a] tuple";
+  const qKey = questionKey(item);
+  const aKey = A_KEYS.find(k => k in item);
+  if (!qKey) return `missing question key (${Q_KEYS.slice(0, 3).join("/")}…)`;
+  if (!aKey) return `missing answer key (${A_KEYS.slice(0, 3).join("/")}…)`;
+  return (Array.isArray(item[qKey]) ? splitVariants(item[qKey])[0] : coerceStr(item[qKey])) ? "empty answer" : "empty question";
+}
+
+export function excerpt(x: any): string {
+  const s = (typeof x === "string" ? x : JSON.stringify(x) ?? String(x)).replace(/\s+/g, " ").trim();
+  return s.length > 120 ? `${s.slice(0, 119)}…` : s;
+}
+
+// Runs raw items through the object/tuple extractors, keeping every reject with its reason.
+export function collectRows(items: any[], where: (i: number) => { line?: number; item?: number }) {
+  const pairs: ImportRow[] = [];
+  const rejected: ImportIssue[] = [];
+  items.forEach((item, i) => {
+    const qa = Array.isArray(item) ? extractQAFromArray(item) : extractQAFromObject(item);
+    if (qa) pairs.push({ ...qa, ...where(i) });
+    else rejected.push({ ...where(i), reason: rejectReason(item), excerpt: excerpt(item) });
+  });
+  return { pairs, rejected };
+}
+
+// Maps an ExportPayload `bot` block back onto editor metadata.
+export function metaPatchFromBot(bot: any): Partial<BotMeta> {
+  return {
+    lab: coerceStr(bot.lab || ""),
+    botName: coerceStr(bot.name || ""),
+    ownerEmail: coerceStr(bot.owner_email || ""),
+    description: coerceStr(bot.description || ""),
+    baseModel: coerceStr(bot.model || "qwen2.5:7b-instruct"),
+    embedModel: coerceStr(bot.embed_model || "nomic-embed-text"),
+    temperature: typeof bot.temperature === "number" ? bot.temperature : 0.2,
+    topP: typeof bot.top_p === "number" ? bot.top_p : 0.95,
+    // Behavior fields are only set when present, so older payloads keep the current values
+    systemPrompt: bot.system_prompt === undefined ? undefined : coerceStr(bot.system_prompt),
+    greeting: bot.greeting === undefined ? undefined : coerceStr(bot.greeting),
+    fallbackMessage: bot.fallback_message === undefined ? undefined : coerceStr(bot.fallback_message),
+    escalationContact: bot.escalation_contact === undefined ? undefined : coerceStr(bot.escalation_contact),
+    refusedTopics: Array.isArray(bot.refused_topics) ? bot.refused_topics.map(coerceStr).filter(Boolean) : undefined,
+    answerFormat: bot.answer_format === "markdown" || bot.answer_format === "plain" ? bot.answer_format : undefined,
+  };
+}
+
+// RFC 4180-style CSV: quoted fields may contain the delimiter, "" escapes and newlines.
+// Blank rows are skipped; each row remembers the (1-based) line it starts on.
+function parseCsvRows(text: string, delimiter = ","): { cells: string[]; line: number }[] {
+  const rows: { cells: string[]; line: number }[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\n") line++;
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === "") quoted = true;
+    else if (ch === delimiter) { row.push(field); field = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") { i++; line++; }
+      else if (ch === "\r") line++;
+      row.push(field); field = "";
+      if (row.some(f => f.trim())) rows.push({ cells: row, line: rowLine });
+      row = [];
+      rowLine = line;
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push({ cells: row, line: rowLine });
+  return rows;
+}
+
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  return parseCsvRows(text, delimiter).map(r => r.cells);
+}
+
+// Reads back what toModelfile() writes: FROM/PARAMETER lines, a `# bot:` JSON
+// comment with the full bot block, and Q:/A:/Tags:/Language: blocks inside SYSTEM """...""".
+function parseModelfile(text: string): ImportResult | null {
+  const from = /^FROM\s+(\S+)/m.exec(text);
+  const system = /^SYSTEM\s+"""\r?\n?([\s\S]*?)"""/m.exec(text);
+  if (!from || !system) return null;
+
+  let bot: any = {};
+  const botLine = /^#\s*bot:\s*(\{.*\})\s*$/m.exec(text);
+  if (botLine) {
+    try {
+      bot = JSON.parse(botLine[1]);
+    } catch {
+      // keep defaults
+    }
+  }
+  const param = (name: string) => {
+    const m = new RegExp(`^PARAMETER\\s+${name}\\s+(\\S+)`, "m").exec(text);
+    return m && Number.isFinite(Number(m[1])) ? Number(m[1]) : undefined;
+  };
+  const metaPatch = metaPatchFromBot({
+    ...bot,
+    model: from[1],
+    temperature: param("temperature") ?? bot.temperature,
+    top_p: param("top_p") ?? bot.top_p,
+  });
+
+  const blocks: string[][] = [];
+  let cur: { q: string[]; a: string[]; tags: string; variants: string; lang: string; group: string; inAnswer: boolean } | null = null;
+  const flush = () => {
+    if (cur) blocks.push([cur.q.join("\n"), cur.a.join("\n"), cur.tags, cur.variants, cur.lang, cur.group]);
+  };
+  for (const line of system[1].split(/\r?\n/)) {
+    if (line.startsWith("Q: ")) {
+      flush();
+      cur = { q: [line.slice(3)], a: [], tags: "", variants: "", lang: "", group: "", inAnswer: false };
+    } else if (!cur) continue;
+    else if (!cur.inAnswer && line.startsWith("Also asked as: ")) cur.variants = line.slice(15);
+    else if (!cur.inAnswer && line.startsWith("A: ")) {
+      cur.inAnswer = true;
+      cur.a.push(line.slice(3));
+    } else if (cur.inAnswer && line.startsWith("Tags: ")) cur.tags = line.slice(6);
+    else if (cur.inAnswer && line.startsWith("Language: ")) cur.lang = line.slice(10);
+    else if (cur.inAnswer && line.startsWith("Translation group: ")) cur.group = line.slice(19);
+    else (cur.inAnswer ? cur.a : cur.q).push(line);
+  }
+  flush();
+  return blocks.length ? { metaPatch, ...collectRows(blocks, i => ({ item: i + 1 })) } : null;
+}
+
+export type ImportResult = {
+  metaPatch?: Partial<BotMeta>;
+  pairs: ImportRow[];
+  rejected?: ImportIssue[];
+  notices?: string[]; // file-level remarks, e.g. payload upgrades and schema problems
+  documents?: RefDocument[]; // reference documents carried by an exported payload
+};
+
+// Header-to-column mapping for delimited files (column indexes, -1 = absent).
+export type ColumnMap = { q: number; a: number; tags: number; variants: number; lang: number; group: number };
+
+const HEADER_ALIASES: Record<keyof ColumnMap, string[]> = {
+  q: ["q", "question", "questions", "prompt", "query", "ask"],
+  a: ["a", "answer", "answers", "response", "reply", "text"],
+  tags: ["tags", "tag", "topic", "topics", "category", "categories", "keywords"],
+  variants: ["variants", "variant", "aliases", "alias", "paraphrases", "alternates", "alternate questions", "also asked as"],
+  lang: ["lang", "language", "locale"],
+  group: ["translation_group", "translation group", "translationgroup"],
+};
+
+export function guessColumnMap(header: string[]): ColumnMap {
+  const norm = header.map(h => h.trim().toLowerCase());
+  const find = (key: keyof ColumnMap) => norm.findIndex(h => HEADER_ALIASES[key].includes(h));
+  return { q: find("q"), a: find("a"), tags: find("tags"), variants: find("variants"), lang: find("lang"), group: find("group") };
+}
+
+function extractQAFromDelimited(text: string, delimiter: string, columns?: ColumnMap): ImportResult {
+  const rows = parseCsvRows(text, delimiter);
+  if (rows.length < 2) throw new Error("Expected a header row and at least one data row");
+  const map = columns ?? guessColumnMap(rows[0].cells);
+  if (map.q < 0 || map.a < 0) throw new Error("No question/answer columns found in the header row");
+  const data = rows.slice(1);
+  return collectRows(
+    data.map(({ cells }) => [
+      cells[map.q] ?? "",
+      cells[map.a] ?? "",
+      map.tags >= 0 ? cells[map.tags] ?? "" : "",
+      map.variants >= 0 ? cells[map.variants] ?? "" : "",
+      map.lang >= 0 ? cells[map.lang] ?? "" : "",
+      map.group >= 0 ? cells[map.group] ?? "" : "",
+    ]),
+    i => ({ line: data[i].line })
+  );
+}
+
+/**
+ * Markdown FAQ: each `##` heading is a question and the text below it the answer.
+ * When `###` headings are present under `##` sections, the `###` headings are the
+ * questions and their section title becomes a tag. Headings inside code fences are ignored.
+ */
+function extractQAFromMarkdown(text: string): ImportResult {
+  const lines = text.split(/\r?\n/);
+  const headings: { level: number; line: number; title: string }[] = [];
+  let fenced = false;
+  lines.forEach((line, i) => {
+    if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+    const m = !fenced && /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (m) headings.push({ level: m[1].length, line: i, title: m[2].trim() });
+  });
+
+  const hasH3 = headings.some(h => h.level === 3);
+  const qLevel = hasH3 ? 3 : 2;
+  const blocks: { cells: [string, string, string[]]; line: number }[] = [];
+  let section = "";
+  headings.forEach((h, i) => {
+    if (h.level < qLevel) section = h.level === qLevel - 1 ? h.title : "";
+    if (h.level !== qLevel) return;
+    const next = headings.slice(i + 1).find(n => n.level <= qLevel);
+    const body = lines.slice(h.line + 1, next ? next.line : lines.length).join("\n");
+    blocks.push({ cells: [h.title, body, section && hasH3 ? [section] : []], line: h.line + 1 });
+  });
+  if (!blocks.length) throw new Error(`No '${"#".repeat(qLevel)} Question' sections found`);
+  return collectRows(blocks.map(b => b.cells), i => ({ line: blocks[i].line }));
+}
+
+// HTML FAQ pages: <details><summary>Q</summary>A</details> blocks and <dt>Q</dt><dd>A</dd> lists.
+function extractQAFromHtml(html: string): ImportResult {
+  const blocks: { cells: string[]; index: number }[] = [];
+  for (const m of html.matchAll(/<details\b[^>]*>\s*<summary\b[^>]*>([\s\S]*?)<\/summary>([\s\S]*?)<\/details>/gi)) {
+    blocks.push({ cells: [htmlToText(m[1]), htmlToText(m[2])], index: m.index });
+  }
+  for (const m of html.matchAll(/<dt\b[^>]*>([\s\S]*?)<\/dt>([\s\S]*?)(?=<dt\b|<\/dl>|$)/gi)) {
+    const answers = Array.from(m[2].matchAll(/<dd\b[^>]*>([\s\S]*?)(?:<\/dd>|(?=<dd\b)|$)/gi), d => htmlToText(d[1]));
+    blocks.push({ cells: [htmlToText(m[1]), answers.filter(Boolean).join("\n\n")], index: m.index });
+  }
+  if (!blocks.length) throw new Error("No <details>/<summary> or <dt>/<dd> Q&A blocks found");
+  blocks.sort((x, y) => x.index - y.index);
+  return collectRows(blocks.map(b => b.cells), i => ({ line: html.slice(0, blocks[i].index).split("\n").length }));
+}
+
+/**
+ * JSON shapes accepted:
+ * - ExportPayload { bot, pairs }
+ * - Raw array of QA objects: [ {q,a}, ... ], or [{question,answer}, ...]
+ * - Array of tuples: [ ["q","a"], ... ] (3rd element optional tags)
+ * - Wrapped objects: { pairs|data|faqs|items|records: [...] }
+ * - JSONL (one JSON per line)
+ */
+function parseJsonQAPairs(raw: string): ImportResult {
+  // Strip common trailing commas (e.g., after last element in an array/object)
+  const jsonText = raw.replace(/,\s*([\]}])/g, "$1");
+
+  // 1) Try normal JSON first
+  let jsonError = "";
+  let data: any;
+  try {
+    data = JSON.parse(jsonText);
+  } catch (e: any) {
+    // fallthrough to JSONL attempt
+    jsonError = e?.message || String(e);
+  }
+
+  if (!jsonError) {
+    // If full ExportPayload: upgrade it, then report schema problems outside the pairs
+    // (bad pairs already show up as rejected rows)
+    if (data && typeof data === "object" && "bot" in data && "pairs" in data && Array.isArray((data as any).pairs)) {
+      const { payload, from } = migratePayload(data);
+      const notices = validatePayload(payload).filter(i => !i.path.startsWith("pairs")).map(formatIssue);
+      if (from !== PAYLOAD_VERSION) notices.unshift(`Upgraded from payload version ${from}.`);
+      const metaPatch = metaPatchFromBot(payload.bot ?? {});
+      const documents = (Array.isArray(payload.documents) ? payload.documents : []).flatMap((d: any) => documentFromPayload(d) ?? []);
+      return { metaPatch, notices, documents, ...collectRows(payload.pairs, i => ({ item: i + 1 })) };
+    }
+
+    // If raw array
+    if (Array.isArray(data) && data.length) {
+      return collectRows(data, i => ({ item: i + 1 }));
+    }
+
+    // If wrapped under common keys
+    if (data && typeof data === "object") {
+      const wrapKey = ["pairs", "data", "faqs", "items", "records"].find(k => Array.isArray((data as any)[k]));
+      if (wrapKey) {
+        const arr: any[] = (data as any)[wrapKey];
+        if (arr.length) return collectRows(arr, i => ({ item: i + 1 }));
+      }
+    }
+  }
+
+  // 2) Try JSON Lines (JSONL): one JSON per line; unparseable lines are reported, not fatal
+  const parsed: { value: any; line: number }[] = [];
+  const badLines: ImportIssue[] = [];
+  jsonText.split(/\r?\n/).forEach((text, i) => {
+    if (!text.trim()) return;
+    try {
+      parsed.push({ value: JSON.parse(text), line: i + 1 });
+    } catch (e: any) {
+      badLines.push({ line: i + 1, reason: `invalid JSON (${e?.message || e})`, excerpt: excerpt(text) });
+    }
+  });
+  if (parsed.some(p => p.value && typeof p.value === "object")) {
+    const rows = collectRows(parsed.map(p => p.value), i => ({ line: parsed[i].line }));
+    return { pairs: rows.pairs, rejected: [...rows.rejected, ...badLines].sort((x, y) => (x.line ?? 0) - (y.line ?? 0)) };
+  }
+
+  // 3) If nothing matched:
+  throw new Error(jsonError ? `Invalid JSON: ${jsonError}` : "Unsupported JSON format: could not find Q/A pairs");
+}
+
+export type Importer = {
+  id: string;
+  label: string;
+  extensions: string[];
+  sniff: (text: string) => boolean;
+  parse: (text: string, opts: { columns?: ColumnMap }) => ImportResult;
+};
+
+// Order matters: content sniffing tries these top to bottom.
+export const IMPORTERS: Importer[] = [
+  {
+    id: "json",
+    label: "JSON / JSONL",
+    extensions: ["json", "jsonl", "ndjson"],
+    sniff: t => /^\s*[[{]/.test(t),
+    parse: t => parseJsonQAPairs(t),
+  },
+  {
+    id: "modelfile",
+    label: "Ollama Modelfile",
+    extensions: ["modelfile"],
+    sniff: t => /^FROM\s+\S+/m.test(t) && /^SYSTEM\s+"""/m.test(t),
+    parse: t => {
+      const r = parseModelfile(t);
+      if (!r) throw new Error("No Q:/A: blocks found in the Modelfile SYSTEM prompt");
+      return r;
+    },
+  },
+  {
+    id: "html",
+    label: "HTML FAQ",
+    extensions: ["html", "htm"],
+    sniff: t => /<(details|dl|dt|html|body)\b/i.test(t),
+    parse: t => extractQAFromHtml(t),
+  },
+  {
+    id: "markdown",
+    label: "Markdown FAQ",
+    extensions: ["md", "markdown"],
+    sniff: t => /^#{2,3}\s+\S/m.test(t),
+    parse: t => extractQAFromMarkdown(t),
+  },
+  {
+    id: "tsv",
+    label: "TSV",
+    extensions: ["tsv", "tab"],
+    sniff: t => t.split(/\r?\n/, 1)[0].includes("\t"),
+    parse: (t, o) => extractQAFromDelimited(t, "\t", o.columns),
+  },
+  {
+    id: "csv",
+    label: "CSV",
+    extensions: ["csv"],
+    sniff: t => t.split(/\r?\n/, 1)[0].includes(","),
+    parse: (t, o) => extractQAFromDelimited(t, ",", o.columns),
+  },
+];
+
+// A matching file extension wins; otherwise every importer whose sniff matches is tried in order.
+export function detectImporters(text: string, fileName?: string): Importer[] {
+  const ext = /\.([^./\\]+)$/.exec(fileName || "")?.[1]?.toLowerCase();
+  const byExt = ext ? IMPORTERS.find(i => i.extensions.includes(ext)) : undefined;
+  return byExt ? [byExt] : IMPORTERS.filter(i => i.sniff(text));
+}
+
+export function parseAnyQAPairs(text: string, opts: { fileName?: string; columns?: ColumnMap } = {}): ImportResult & { format: string } {
+  const candidates = detectImporters(text, opts.fileName);
+  const errors: string[] = [];
+  for (const importer of candidates) {
+    try {
+      return { ...importer.parse(text, opts), format: importer.id };
+    } catch (e: any) {
+      errors.push(`${importer.label}: ${e?.message || e}`);
+    }
+  }
+  throw new Error(errors.length ? errors.join("; ") : "Unsupported format: could not find Q/A pairs");
+}
+
+export function rowWhere(r: { line?: number; item?: number }): string {
+  return r.line ? `line ${r.line}` : r.item ? `item ${r.item}` : "";
+}
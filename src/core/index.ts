@@ -0,0 +1,35 @@
+/**
+ * Headless core of the chatbot builder: the data types, import parsers, payload
+ * mapping, schema and migrations, Markdown checks, document chunking, languages and
+ * translations, regression tests, export formats, updates to deployed bots, import
+ * merging and duplicate detection, content scanning, submission tracking and the
+ * outbox, drafts and undo history, list editing and tags, and lexical retrieval.
+ * Nothing here touches React or the DOM, so the browser app and the Node CLI
+ * (cli/chatbot.mjs) share the same code.
+ */
+export * from "./types";
+export * from "./util";
+export * from "./models";
+export * from "./bot";
+export * from "./schema";
+export * from "./import";
+export * from "./markdown";
+export * from "./documents";
+export * from "./languages";
+export * from "./export";
+export * from "./auth";
+export * from "./submit";
+export * from "./deployed";
+export * from "./dataset";
+export * from "./evals";
+export * from "./merge";
+export * from "./duplicates";
+export * from "./scanner";
+export * from "./submissions";
+export * from "./outbox";
+export * from "./history";
+export * from "./search";
+export * from "./tags";
+export * from "./bulk";
+export * from "./retrieval";
+export * from "./drafts";
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { QAPair } from "./types";
+import { buildPayload, emptyMeta } from "./bot";
+import { serializePayload } from "./export";
+import { parseAnyQAPairs } from "./import";
+import { detectLanguage, linkTranslations, translationCoverage, unlinkTranslation } from "./languages";
+import { validatePayload } from "./schema";
+
+const lingual: QAPair[] = [
+  { id: "en1", q: "Where is the lab?", a: "It is in Room 204.", group: "g1" },
+  { id: "es1", q: "¿Dónde está el laboratorio?", a: "En la sala 204.", group: "g1" },
+  { id: "en2", q: "When is the lab open?", a: "It is open from 9 to 5." },
+  { id: "pt2", q: "Quando o laboratório abre?", a: "Das 9 às 5.", lang: "pt", group: "g2" },
+];
+
+describe("detectLanguage", () => {
+  it("scores Latin text by stopwords and letters", () => {
+    expect(detectLanguage("Where is the lab and when does it open?")).toBe("en");
+    expect(detectLanguage("¿Dónde está el laboratorio?")).toBe("es");
+    expect(detectLanguage("Onde fica o laboratório? Não sei.")).toBe("pt");
+  });
+
+  it("settles CJK by script and gives up on short text", () => {
+    expect(detectLanguage("研究室はどこですか")).toBe("ja");
+    expect(detectLanguage("Hours?")).toBeUndefined();
+  });
+});
+
+describe("translation groups", () => {
+  it("joins the group the picked pairs already belong to", () => {
+    const linked = linkTranslations(lingual, ["en2", "es1"]);
+    expect(linked.map(p => p.group)).toEqual(["g1", "g1", "g1", "g2"]);
+  });
+
+  it("drops groups left with one member", () => {
+    expect(unlinkTranslation(lingual, "en1").map(p => p.group)).toEqual([undefined, undefined, undefined, undefined]);
+  });
+
+  it("reports missing and repeated languages", () => {
+    const covered = translationCoverage(lingual);
+    expect(covered.languages).toEqual(["en", "es", "pt"]);
+    expect(covered.rows.map(r => r.missing)).toEqual([["pt"], ["es", "pt"], ["en", "es"]]);
+    expect(translationCoverage(linkTranslations(lingual, ["en2", "es1"])).rows[0].repeated).toEqual(["en"]);
+  });
+});
+
+describe("languages in the payload", () => {
+  const payload = buildPayload({ ...emptyMeta(), lab: "IALS", botName: "Scope", ownerEmail: "a@umass.edu" }, lingual);
+
+  it("carries lang and translation_group on each pair", () => {
+    expect(payload.pairs[1]).toMatchObject({ lang: "es", translation_group: "g1" });
+    expect(payload.pairs[2].translation_group).toBeUndefined();
+    expect(validatePayload(payload)).toEqual([]);
+  });
+
+  it("round-trips through the importer", () => {
+    const back = parseAnyQAPairs(serializePayload(payload, "json"), { fileName: "bot.json" }).pairs;
+    expect(back[3]).toMatchObject({ lang: "pt", group: "g2" });
+  });
+});
@@ -0,0 +1,128 @@
+import type { QAPair } from "./types";
+import { uid } from "./util";
+
+// Languages of Q&A pairs: a code per pair (typed or detected) and translation groups
+// that link the same pair across languages, so the backend can answer in the asker's language.
+
+export const LANGUAGES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese",
+  fr: "French",
+  de: "German",
+  zh: "Chinese",
+  ja: "Japanese",
+  ko: "Korean",
+};
+
+export function languageName(code: string) {
+  return LANGUAGES[code] ?? code;
+}
+
+// BCP 47 shaped: "es", "pt-BR", "zh-Hant"
+export function isLanguageCode(code: string) {
+  return /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(code);
+}
+
+// Common short words that mostly belong to one language; words shared by several
+// (que, para, la) still count for each of them and the rest decide.
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "is", "are", "and", "of", "to", "what", "how", "where", "when", "can", "do", "does", "you", "my", "for", "with", "on", "it", "this", "will", "have", "i"],
+  es: ["el", "la", "los", "las", "es", "está", "son", "y", "que", "qué", "cómo", "dónde", "cuándo", "puedo", "para", "con", "una", "del", "por", "mi", "tengo", "hay", "se", "lo", "muy"],
+  pt: ["o", "os", "as", "é", "está", "são", "e", "que", "como", "onde", "quando", "posso", "para", "com", "em", "um", "uma", "do", "da", "na", "por", "meu", "minha", "tenho", "não", "você"],
+  fr: ["le", "la", "les", "est", "et", "que", "comment", "où", "quand", "je", "peux", "pour", "avec", "dans", "une", "du", "des", "pas", "vous", "mon", "ma", "il", "ce"],
+  de: ["der", "die", "das", "ist", "und", "wie", "wo", "wann", "ich", "kann", "für", "mit", "ein", "eine", "nicht", "sie", "mein", "zu", "auf", "den", "dem"],
+};
+
+// Letters (or punctuation) that each point to one language; worth two words.
+const MARKS: Array<[RegExp, string]> = [
+  [/[ñ¿¡]/, "es"],
+  [/[ãõ]/, "pt"],
+  [/[èùœ]/, "fr"],
+  [/[äöüß]/, "de"],
+];
+
+/**
+ * Guesses the language of a question and answer, or undefined when the text is too
+ * short or mixed to tell. Scripts settle it for Japanese, Korean and Chinese; Latin
+ * text is scored by stopwords and telltale letters.
+ */
+export function detectLanguage(text: string): string | undefined {
+  if (/[\u3040-\u30ff]/.test(text)) return "ja";
+  if (/[\uac00-\ud7af]/.test(text)) return "ko";
+  if (/[\u4e00-\u9fff]/.test(text)) return "zh";
+  const lower = text.normalize("NFC").toLowerCase();
+  const words = lower.match(/\p{L}+/gu) ?? [];
+  const scores = Object.entries(STOPWORDS).map(([code, list]) => {
+    const known = new Set(list);
+    const marks = MARKS.filter(([re, c]) => c === code && re.test(lower)).length;
+    return { code, score: words.filter(w => known.has(w)).length + 2 * marks };
+  });
+  scores.sort((x, y) => y.score - x.score);
+  const [best, runnerUp] = scores;
+  return best.score >= 2 && best.score > runnerUp.score ? best.code : undefined;
+}
+
+/** The pair's language: the one set on it, otherwise the detected one. */
+export function pairLanguage(p: Pick<QAPair, "q" | "a" | "lang">): string | undefined {
+  return p.lang?.trim() || detectLanguage(`${p.q || ""}\n${p.a || ""}`);
+}
+
+// A group with a single member is no longer a translation of anything.
+function dropLoneGroups(pairs: QAPair[]): QAPair[] {
+  const counts = new Map<string, number>();
+  for (const p of pairs) if (p.group) counts.set(p.group, (counts.get(p.group) ?? 0) + 1);
+  return pairs.map(p => (p.group && counts.get(p.group) === 1 ? { ...p, group: undefined } : p));
+}
+
+/** Links pairs as translations of each other; groups they already belong to are merged into one. */
+export function linkTranslations(pairs: QAPair[], ids: string[]): QAPair[] {
+  const chosen = new Set(ids);
+  const picked = pairs.filter(p => chosen.has(p.id));
+  if (picked.length < 2) return pairs;
+  const merged = new Set(picked.map(p => p.group).filter(Boolean));
+  const group = picked.find(p => p.group)?.group ?? uid();
+  return pairs.map(p => (chosen.has(p.id) || (p.group && merged.has(p.group)) ? { ...p, group } : p));
+}
+
+export function unlinkTranslation(pairs: QAPair[], id: string): QAPair[] {
+  return dropLoneGroups(pairs.map(p => (p.id === id ? { ...p, group: undefined } : p)));
+}
+
+export type CoverageRow = {
+  key: string; // translation group, or the pair id of a pair without translations
+  members: Array<{ pair: QAPair; lang?: string }>;
+  missing: string[]; // bot languages no member is written in
+  repeated: string[]; // languages more than one member is written in
+};
+
+/**
+ * Which languages each pair (or group of translations) has and lacks. The bot's
+ * languages are all those in use, most common first; pairs of unknown language
+ * count toward none.
+ */
+export function translationCoverage(pairs: QAPair[]): { languages: string[]; counts: Map<string, number>; rows: CoverageRow[] } {
+  const rows = new Map<string, CoverageRow>();
+  const counts = new Map<string, number>();
+  for (const pair of pairs) {
+    const lang = pairLanguage(pair);
+    if (lang) counts.set(lang, (counts.get(lang) ?? 0) + 1);
+    const key = pair.group || pair.id;
+    const row = rows.get(key) ?? { key, members: [], missing: [], repeated: [] };
+    row.members.push({ pair, lang });
+    rows.set(key, row);
+  }
+  const languages = [...counts.keys()].sort((x, y) => counts.get(y)! - counts.get(x)! || x.localeCompare(y));
+  return {
+    languages,
+    counts,
+    rows: [...rows.values()].map(row => {
+      const present = row.members.map(m => m.lang).filter((l): l is string => Boolean(l));
+      return {
+        ...row,
+        missing: languages.filter(l => !present.includes(l)),
+        repeated: languages.filter(l => present.filter(x => x === l).length > 1),
+      };
+    }),
+  };
+}
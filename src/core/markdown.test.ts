@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { checkLinks, parseInline, parseMarkdownBlocks, safeHref } from "./markdown";
+
+describe("parseMarkdownBlocks", () => {
+  it("splits headings, lists, quotes, code and paragraphs", () => {
+    const blocks = parseMarkdownBlocks("# Booking\n1. Log in to [iLab](https://ilab.umass.edu).\n2. Pick a slot\n\n> **Wear gloves**\n\n```\n# not a heading\n```\nSee https://x.umass.edu, then done");
+    expect(blocks.map(b => b.kind)).toEqual(["h", "ol", "quote", "code", "p"]);
+  });
+});
+
+describe("parseInline", () => {
+  it("reads emphasis, code and bare links without swallowing trailing punctuation", () => {
+    const inline = parseInline("Use **the *east* door**, `code` and https://a.umass.edu/x. Ok");
+    expect(inline.slice(0, 7).map(n => n.kind)).toEqual(["text", "strong", "text", "code", "text", "link", "text"]);
+    expect(inline[5]).toMatchObject({ kind: "link", url: "https://a.umass.edu/x" });
+    expect(inline[6]).toMatchObject({ kind: "text", text: "." });
+  });
+
+  it("leaves underscores inside words and spaced asterisks alone", () => {
+    expect(parseInline("snake_case_name and 2 * 3 * 4")).toHaveLength(1);
+  });
+});
+
+describe("links", () => {
+  it("only allows web and mail links", () => {
+    expect(safeHref("javascript:alert(1)")).toBeNull();
+    expect(safeHref("https://umass.edu")).toBe("https://umass.edu/");
+  });
+
+  it("explains malformed links and skips code spans", () => {
+    const links = checkLinks("[Book](ilab.umass.edu) [x](javascript:alert(1)) <mailto:ta@umass.edu> [ok](https://umass.edu) `https://bad` [y](https://booking)");
+    expect(links.map(l => l.reason)).toEqual(["missing https://", 'unsupported scheme "javascript:"', "host has no domain"]);
+  });
+});
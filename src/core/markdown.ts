@@ -0,0 +1,132 @@
+/**
+ * The subset of Markdown the preview understands: paragraphs, `#` headings, `-`/`1.` lists,
+ * `>` quotes, fenced code, and inline `code`, **bold**, *italic*, [links](url) and bare URLs.
+ * It produces a tree that is rendered as React elements, never as HTML, so nothing in an
+ * answer can inject markup or script.
+ */
+export type MdInline =
+  | { kind: "text" | "code"; text: string }
+  | { kind: "strong" | "em"; children: MdInline[] }
+  | { kind: "link"; text: string; url: string };
+
+export type MdBlock =
+  | { kind: "p" | "quote"; text: string }
+  | { kind: "h"; level: number; text: string }
+  | { kind: "ul" | "ol"; items: string[]; start?: number }
+  | { kind: "code"; text: string };
+
+const MD_FENCE = /^\s*(```|~~~)/;
+const MD_HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const MD_LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const MD_QUOTE = /^\s*>/;
+
+export function parseMarkdownBlocks(src: string): MdBlock[] {
+  const lines = src.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MdBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = MD_FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++; // closing fence (an unclosed fence runs to the end)
+      blocks.push({ kind: "code", text: body.join("\n") });
+    } else if (!line.trim()) {
+      i++;
+    } else if (MD_HEADING.test(line)) {
+      const [, hashes, text] = MD_HEADING.exec(line)!;
+      blocks.push({ kind: "h", level: hashes.length, text });
+      i++;
+    } else if (MD_LIST_ITEM.test(line)) {
+      const ordered = /\d/.test(MD_LIST_ITEM.exec(line)![1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const m = MD_LIST_ITEM.exec(lines[i]);
+        if (m && /\d/.test(m[1]) === ordered) items.push(m[2]);
+        else if (items.length && lines[i].trim() && /^\s{2,}/.test(lines[i])) items[items.length - 1] += ` ${lines[i].trim()}`;
+        else break;
+        i++;
+      }
+      blocks.push({ kind: ordered ? "ol" : "ul", items, start: ordered ? parseInt(MD_LIST_ITEM.exec(line)![1], 10) : undefined });
+    } else if (MD_QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && MD_QUOTE.test(lines[i])) body.push(lines[i++].replace(/^\s*>\s?/, ""));
+      blocks.push({ kind: "quote", text: body.join(" ") });
+    } else {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim() && ![MD_FENCE, MD_HEADING, MD_LIST_ITEM, MD_QUOTE].some(re => re.test(lines[i]))) {
+        body.push(lines[i++].trim());
+      }
+      blocks.push({ kind: "p", text: body.join(" ") });
+    }
+  }
+  return blocks;
+}
+
+const MD_INLINE = /`([^`]+)`|\*\*(.+?)\*\*|\[([^\]]+)\]\(([^)]*)\)|<((?:https?|mailto):[^>\s]+)>|\b((?:https?:\/\/|www\.)[^\s<>()]+)|(?<![\w*])\*(?!\s)([^*]+?)\*|(?<!\w)_(?!\s)([^_]+?)_(?!\w)/g;
+
+export function parseInline(text: string): MdInline[] {
+  const out: MdInline[] = [];
+  let last = 0;
+  for (const m of text.matchAll(MD_INLINE)) {
+    const at = m.index ?? 0;
+    if (at > last) out.push({ kind: "text", text: text.slice(last, at) });
+    last = at + m[0].length;
+    if (m[1] !== undefined) out.push({ kind: "code", text: m[1] });
+    else if (m[2] !== undefined) out.push({ kind: "strong", children: parseInline(m[2]) });
+    else if (m[3] !== undefined) out.push({ kind: "link", text: m[3], url: m[4].trim() });
+    else if (m[5] !== undefined) out.push({ kind: "link", text: m[5], url: m[5] });
+    else if (m[6] !== undefined) {
+      // Trailing punctuation usually ends the sentence, not the URL
+      const url = m[6].replace(/[.,;:!?'"]+$/, "");
+      out.push({ kind: "link", text: url, url: url.startsWith("www.") ? `https://${url}` : url });
+      if (url.length < m[6].length) out.push({ kind: "text", text: m[6].slice(url.length) });
+    } else out.push({ kind: "em", children: parseInline(m[7] ?? m[8]) });
+  }
+  if (last < text.length) out.push({ kind: "text", text: text.slice(last) });
+  return out;
+}
+
+// Only web and mail links are rendered as links; anything else stays text.
+export function safeHref(url: string): string | null {
+  try {
+    const u = new URL(url);
+    return ["http:", "https:", "mailto:"].includes(u.protocol) ? u.href : null;
+  } catch {
+    return null;
+  }
+}
+
+export type LinkIssue = { url: string; reason: string };
+
+function linkProblem(url: string): string | null {
+  if (!url) return "empty link target";
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return /^[\w.-]+\.[a-z]{2,}(\/|$)/i.test(url) ? "missing https://" : "not a valid URL";
+  }
+  if (u.protocol === "mailto:") return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(decodeURIComponent(u.pathname)) ? null : "invalid email address";
+  if (u.protocol !== "http:" && u.protocol !== "https:") return `unsupported scheme "${u.protocol}"`;
+  if (!/\./.test(u.hostname) && u.hostname !== "localhost") return "host has no domain";
+  return null;
+}
+
+/** Malformed links in an answer (Markdown links, <autolinks> and bare URLs; code is skipped). */
+export function checkLinks(text: string): LinkIssue[] {
+  const issues: LinkIssue[] = [];
+  const visit = (nodes: MdInline[]) => nodes.forEach(n => {
+    if (n.kind === "link") {
+      const reason = linkProblem(n.url);
+      if (reason) issues.push({ url: n.url, reason });
+    } else if (n.kind === "strong" || n.kind === "em") visit(n.children);
+  });
+  for (const b of parseMarkdownBlocks(text)) {
+    if ("items" in b) b.items.forEach(item => visit(parseInline(item)));
+    else if (b.kind !== "code") visit(parseInline(b.text));
+  }
+  return issues;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import type { QAPair } from "./types";
+import type { ImportRow } from "./import";
+import { applyImport, planMerge } from "./merge";
+
+const current: QAPair[] = [
+  { id: "c1", q: "Where is the lab?", a: "Room 1", tags: [] },
+  { id: "c2", q: "Cost?", a: "$40", tags: [] },
+];
+const incoming: ImportRow[] = [
+  { q: "where is the LAB", a: "Room 2" },
+  { q: "cost", a: "$40" },
+  { q: "Hours?", a: "9-5" },
+];
+
+describe("planMerge", () => {
+  it("matches rows by normalized question", () => {
+    expect(planMerge(current, incoming).map(p => p.status)).toEqual(["conflict", "same", "new"]);
+  });
+});
+
+describe("applyImport", () => {
+  it("replaces or appends", () => {
+    expect(applyImport(current, incoming, "replace")).toHaveLength(3);
+    expect(applyImport(current, incoming, "append")).toHaveLength(5);
+  });
+
+  it("drops a lone blank pair when appending", () => {
+    expect(applyImport([{ id: "x", q: "", a: "", tags: [] }], incoming, "append")).toHaveLength(3);
+  });
+
+  it("merges conflicts in place and appends new rows", () => {
+    const merged = applyImport(current, incoming, "merge");
+    expect(merged.map(p => p.id).slice(0, 2)).toEqual(["c1", "c2"]);
+    expect(merged[0].a).toBe("Room 2");
+    expect(merged[2].q).toBe("Hours?");
+  });
+
+  it("follows the per-conflict choice", () => {
+    expect(applyImport(current, incoming, "merge", { 0: "current" })[0].a).toBe("Room 1");
+    expect(applyImport(current, incoming, "merge", { 0: "both" })).toHaveLength(4);
+  });
+
+  it("gives imported translation groups fresh ids", () => {
+    const rows: ImportRow[] = [{ q: "Hi", a: "Hello", group: "g" }, { q: "Hola", a: "Hola", group: "g" }];
+    const [first, second] = applyImport([], rows, "append");
+    expect(first.group).toBe(second.group);
+    expect(first.group).not.toBe("g");
+  });
+});
@@ -0,0 +1,63 @@
+import type { QAPair } from "./types";
+import { normalizeQuestion, sameTags, uid, uniqueVariants } from "./util";
+import type { ImportRow } from "./import";
+
+// Import modes: replace the editor's pairs, append to them, or merge by question,
+// with the author choosing per conflict which answer wins.
+
+export type ImportMode = "replace" | "append" | "merge";
+export type MergeChoice = "current" | "imported" | "both";
+export type MergeStatus = "new" | "same" | "conflict";
+
+// Matches each incoming row to the first existing pair with the same normalized question.
+export function planMerge(existing: QAPair[], incoming: ImportRow[]): { status: MergeStatus; match?: QAPair }[] {
+  const byQuestion = new Map<string, QAPair>();
+  for (const p of existing) {
+    const key = normalizeQuestion(p.q || "");
+    if (key && !byQuestion.has(key)) byQuestion.set(key, p);
+  }
+  return incoming.map(row => {
+    const match = byQuestion.get(normalizeQuestion(row.q));
+    if (!match) return { status: "new" };
+    const known = new Set([match.q, ...(match.variants ?? [])].map(normalizeQuestion));
+    const same = (match.a || "").trim() === row.a && sameTags(match.tags, row.tags) &&
+      (row.variants ?? []).every(v => known.has(normalizeQuestion(v)));
+    return { status: same ? "same" : "conflict", match };
+  });
+}
+
+/**
+ * Produces the next pair list for an import. Merge keeps existing order, updates
+ * conflicting pairs in place per `choices` (default: take the imported answer),
+ * skips unchanged rows and appends new ones. A lone blank placeholder is dropped.
+ */
+export function applyImport(existing: QAPair[], incoming: ImportRow[], mode: ImportMode, choices: Record<number, MergeChoice> = {}): QAPair[] {
+  // Imported translation groups get new ids, so importing a file twice never joins its groups
+  const groups = new Map<string, string>();
+  const groupFor = (g?: string) => {
+    if (g && !groups.has(g)) groups.set(g, uid());
+    return g ? groups.get(g) : undefined;
+  };
+  const fresh = (r: ImportRow): QAPair => ({ id: uid(), q: r.q, a: r.a, tags: r.tags ?? [], variants: r.variants, lang: r.lang, group: groupFor(r.group) });
+  const base = existing.some(p => (p.q || "").trim() || (p.a || "").trim()) ? existing : [];
+  if (mode === "replace") return incoming.map(fresh);
+  if (mode === "append") return [...base, ...incoming.map(fresh)];
+
+  const updates = new Map<string, Partial<QAPair>>();
+  const added: QAPair[] = [];
+  planMerge(base, incoming).forEach(({ status, match }, i) => {
+    const row = incoming[i];
+    if (status === "new") added.push(fresh(row));
+    if (status !== "conflict" || !match) return;
+    const choice = choices[i] ?? "imported";
+    if (choice === "imported") {
+      updates.set(match.id, {
+        a: row.a,
+        tags: row.tags?.length ? row.tags : match.tags,
+        variants: uniqueVariants(match.q, [row.q, ...(match.variants ?? []), ...(row.variants ?? [])]),
+      });
+    }
+    if (choice === "both") added.push(fresh(row));
+  });
+  return [...base.map(p => ({ ...p, ...updates.get(p.id) })), ...added];
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { inRange, parseModelCatalog } from "./models";
+
+describe("parseModelCatalog", () => {
+  it("reads chat and embedding models and drops nameless entries", () => {
+    const catalog = parseModelCatalog({ models: [{ name: "llama3", context_length: 8192 }, { id: "bge", embedding_dim: "384" }, { kind: "chat" }] });
+    expect(catalog).toHaveLength(2);
+    expect(catalog[0]).toMatchObject({ name: "llama3", kind: "chat", contextLength: 8192 });
+    // An embedding size implies an embedding model
+    expect(catalog[1]).toMatchObject({ name: "bge", kind: "embedding", embeddingDim: 384 });
+  });
+
+  it("parses anything else to nothing", () => {
+    expect(parseModelCatalog("nope")).toEqual([]);
+  });
+});
+
+describe("inRange", () => {
+  it("checks the setting's bounds", () => {
+    expect(inRange("temperature", 2)).toBe(true);
+    expect(inRange("temperature", 2.1)).toBe(false);
+    expect(inRange("topP", Number.NaN)).toBe(false);
+  });
+});
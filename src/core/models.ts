@@ -0,0 +1,61 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { coerceStr } from "./util";
+
+// Model catalog (GET /models) and the ranges allowed for sampling settings.
+
+export type ModelKind = "chat" | "embedding";
+
+export type ModelInfo = {
+  name: string;
+  kind: ModelKind;
+  contextLength?: number;
+  embeddingDim?: number;
+  description?: string;
+};
+
+// Used when the backend has no /models catalog (or is unreachable): the long-standing defaults
+export const FALLBACK_MODELS: ModelInfo[] = [
+  { name: "qwen2.5:7b-instruct", kind: "chat", contextLength: 32768 },
+  { name: "nomic-embed-text", kind: "embedding", contextLength: 8192, embeddingDim: 768 },
+];
+
+export const SETTING_RANGES = {
+  temperature: { min: 0, max: 2, step: 0.05, label: "Temperature" },
+  topP: { min: 0, max: 1, step: 0.01, label: "top_p" },
+  chunkSize: { min: 200, max: 4000, step: 100, label: "Chunk size (characters)" },
+  chunkOverlap: { min: 0, max: 1000, step: 50, label: "Overlap (characters)" },
+} as const;
+
+export type RangedSetting = keyof typeof SETTING_RANGES;
+
+export function inRange(key: RangedSetting, value: number) {
+  const { min, max } = SETTING_RANGES[key];
+  return Number.isFinite(value) && value >= min && value <= max;
+}
+
+const positiveInt = (v: any) => (Number.isInteger(Number(v)) && Number(v) > 0 ? Number(v) : undefined);
+
+/**
+ * Reads GET /models: `{ models: [...] }` or a bare array of
+ * `{ name, kind|type: "chat"|"embedding", context_length?, embedding_dim?, description? }`.
+ * Entries without a name are dropped; a missing kind means chat unless an embedding size is given.
+ */
+export function parseModelCatalog(data: any): ModelInfo[] {
+  const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.models) ? data.models : [];
+  return items
+    .map((m): ModelInfo | null => {
+      const name = coerceStr(m?.name ?? m?.id ?? m?.model);
+      if (!name) return null;
+      const embeddingDim = positiveInt(m?.embedding_dim ?? m?.embedding_dimension ?? m?.dimensions);
+      const kindRaw = coerceStr(m?.kind ?? m?.type).toLowerCase();
+      const kind: ModelKind = kindRaw.startsWith("embed") || (!kindRaw && embeddingDim) ? "embedding" : "chat";
+      return {
+        name,
+        kind,
+        contextLength: positiveInt(m?.context_length ?? m?.context_window ?? m?.num_ctx),
+        embeddingDim,
+        description: coerceStr(m?.description) || undefined,
+      };
+    })
+    .filter((m): m is ModelInfo => m !== null);
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import type { ExportPayload } from "./types";
+import { afterFailedAttempt, expedite, isDue, OUTBOX_BASE_DELAY_MS, OUTBOX_MAX_DELAY_MS, queueSubmission, retryDelay } from "./outbox";
+
+const payload = { bot: { name: "Bot", slug: "ials-bot" }, pairs: [] } as unknown as ExportPayload;
+
+describe("retryDelay", () => {
+  it("backs off exponentially up to a cap", () => {
+    expect(retryDelay(1, () => 1)).toBe(OUTBOX_BASE_DELAY_MS);
+    expect(retryDelay(3, () => 0)).toBe(OUTBOX_BASE_DELAY_MS * 2);
+    expect(retryDelay(50, () => 1)).toBe(OUTBOX_MAX_DELAY_MS);
+  });
+});
+
+describe("scheduling", () => {
+  const queued = queueSubmission(payload, "http://b", "k1", "HTTP 503", 0);
+
+  it("waits before the first retry", () => {
+    expect(queued.attempts).toBe(1);
+    expect(isDue(queued, 0)).toBe(false);
+    expect(isDue(queued, OUTBOX_BASE_DELAY_MS)).toBe(true);
+  });
+
+  it("never retries rejected items", () => {
+    const rejected = afterFailedAttempt(queued, "HTTP 422", false, 0);
+    expect(rejected).toMatchObject({ attempts: 2, failed: true });
+    expect(isDue(rejected, Infinity)).toBe(false);
+  });
+
+  it("expedites the picked waiting items", () => {
+    const rejected = afterFailedAttempt(queued, "HTTP 422", false, 0);
+    const hurried = expedite([queued, rejected], o => o.backend === "http://b", "1970-01-01T00:00:00.000Z");
+    expect(isDue(hurried[0], 0)).toBe(true);
+    expect(hurried[1]).toBe(rejected);
+  });
+});
@@ -0,0 +1,62 @@
+import type { ExportPayload } from "./types";
+import { uid } from "./util";
+
+// Outbox scheduling: when a queued submission is next due, backing off between attempts.
+
+export const OUTBOX_BASE_DELAY_MS = 5_000;
+export const OUTBOX_MAX_DELAY_MS = 10 * 60_000;
+
+// A submission the backend has not accepted yet; it is re-sent until it is, or until it is cancelled.
+export type OutboxItem = {
+  id: string; // idempotency key, sent with every attempt so a retry never creates a second bot
+  payload: ExportPayload;
+  backend: string;
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  failed?: boolean; // rejected outright (4xx); kept so the reason can be read, never retried
+};
+
+// Not crypto.randomUUID: that needs a secure context, and local backends are often plain http.
+export function idempotencyKey() {
+  return `${Date.now().toString(36)}-${uid()}${uid()}`;
+}
+
+// Exponential backoff with jitter: between half and all of base·2^(attempts-1), capped.
+export function retryDelay(attempts: number, random = Math.random) {
+  const ceiling = Math.min(OUTBOX_MAX_DELAY_MS, OUTBOX_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+export function queueSubmission(payload: ExportPayload, backend: string, id: string, error: string, now = Date.now()): OutboxItem {
+  return {
+    id,
+    payload,
+    backend,
+    queuedAt: new Date(now).toISOString(),
+    attempts: 1,
+    nextAttemptAt: new Date(now + retryDelay(1)).toISOString(),
+    lastError: error,
+  };
+}
+
+export function afterFailedAttempt(item: OutboxItem, error: string, retryable: boolean, now = Date.now()): OutboxItem {
+  const attempts = item.attempts + 1;
+  return {
+    ...item,
+    attempts,
+    nextAttemptAt: new Date(now + retryDelay(attempts)).toISOString(),
+    lastError: error,
+    failed: !retryable || undefined,
+  };
+}
+
+export function isDue(item: OutboxItem, now = Date.now()) {
+  return !item.failed && Date.parse(item.nextAttemptAt) <= now;
+}
+
+// Pulls waiting items forward so the next flush sends them straight away (back online, backend healthy, "Retry now").
+export function expedite(outbox: OutboxItem[], pick: (item: OutboxItem) => boolean, now = new Date().toISOString()): OutboxItem[] {
+  return outbox.map(o => (!o.failed && pick(o) && o.nextAttemptAt > now ? { ...o, nextAttemptAt: now } : o));
+}
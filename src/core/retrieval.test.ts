@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import type { QAPair } from "./types";
+import { buildBm25Index, searchBm25 } from "./retrieval";
+
+const corpus: QAPair[] = [
+  { id: "1", q: "When are office hours?", a: "Tuesdays 2-4pm in LGRC A112.", tags: ["office-hours"] },
+  { id: "2", q: "How do I book the confocal microscope?", a: "Use the iLab booking system.", tags: ["booking"] },
+  { id: "3", q: " ", a: " ", tags: [] },
+];
+const index = buildBm25Index(corpus);
+
+describe("BM25 retrieval", () => {
+  it("skips empty pairs", () => {
+    expect(index.docs).toHaveLength(2);
+  });
+
+  it("ranks the matching pair first", () => {
+    expect(searchBm25(index, corpus, "office hours this week").map(h => h.pair.id)).toEqual(["1"]);
+  });
+
+  it("ignores stopword-only queries", () => {
+    expect(searchBm25(index, corpus, "what is the")).toEqual([]);
+  });
+});
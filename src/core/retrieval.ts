@@ -0,0 +1,59 @@
+import type { QAPair } from "./types";
+
+// Local lexical retrieval (BM25) over the pairs, for the playground's preview of
+// which answers a question would draw on.
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from", "how", "i", "in", "is",
+  "it", "me", "my", "of", "on", "or", "the", "to", "what", "when", "where", "which", "who", "why", "with", "you",
+]);
+
+function tokenize(s: string): string[] {
+  return s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+type Bm25Doc = { pairIndex: number; tf: Map<string, number>; len: number };
+export type Bm25Index = { docs: Bm25Doc[]; df: Map<string, number>; avgLen: number };
+export type SearchHit = { pair: QAPair; pairIndex: number; score: number };
+
+// Questions and tags are weighted double: they are what students' wording most often echoes.
+export function buildBm25Index(pairs: QAPair[]): Bm25Index {
+  const docs: Bm25Doc[] = [];
+  const df = new Map<string, number>();
+  pairs.forEach((p, pairIndex) => {
+    const q = tokenize([p.q || "", ...(p.variants || [])].join(" "));
+    const tags = tokenize((p.tags || []).join(" "));
+    const terms = [...q, ...q, ...tags, ...tags, ...tokenize(p.a || "")];
+    if (!terms.length) return;
+    const tf = new Map<string, number>();
+    for (const t of terms) tf.set(t, (tf.get(t) ?? 0) + 1);
+    for (const t of tf.keys()) df.set(t, (df.get(t) ?? 0) + 1);
+    docs.push({ pairIndex, tf, len: terms.length });
+  });
+  const avgLen = docs.length ? docs.reduce((n, d) => n + d.len, 0) / docs.length : 0;
+  return { docs, df, avgLen };
+}
+
+export function searchBm25(index: Bm25Index, pairs: QAPair[], query: string, k = 5, k1 = 1.2, b = 0.75): SearchHit[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (!terms.length || !index.docs.length) return [];
+  const n = index.docs.length;
+  const hits: SearchHit[] = [];
+  for (const doc of index.docs) {
+    let score = 0;
+    for (const t of terms) {
+      const f = doc.tf.get(t);
+      if (!f) continue;
+      const df = index.df.get(t) ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      score += idf * ((f * (k1 + 1)) / (f + k1 * (1 - b + (b * doc.len) / index.avgLen)));
+    }
+    if (score > 0) hits.push({ pair: pairs[doc.pairIndex], pairIndex: doc.pairIndex, score });
+  }
+  return hits.sort((x, y) => y.score - x.score).slice(0, k);
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { emptyMeta } from "./bot";
+import { scanDraft, scanText } from "./scanner";
+
+describe("scanText", () => {
+  it("finds each kind of sensitive content", () => {
+    const found = scanText("Email jdoe@umass.edu or call (413) 545-0111. Door code is 4821#. SSN 123-45-6789, SPIRE ID 31234567, key sk-abcdefghijklmnopqrstuvwx", "a", "p1");
+    expect(found.map(f => f.ruleId)).toEqual(["email", "phone", "door-code", "ssn", "student-id", "api-key"]);
+    expect(found.filter(f => f.severity === "high")).toHaveLength(4);
+  });
+
+  it("leaves ordinary text alone", () => {
+    expect(scanText("Room 204, open 9-5, call ext. 5-0111. Due 2025-09-16.", "a")).toEqual([]);
+  });
+});
+
+describe("scanDraft", () => {
+  it("reports where each finding is", () => {
+    const found = scanDraft({ ...emptyMeta(), description: "password: hunter2hunter2" }, [{ id: "p1", q: "Who?", a: "ta@umass.edu" }]);
+    expect(found.map(f => [f.field, f.pairId])).toEqual([["description", undefined], ["a", "p1"]]);
+  });
+});
@@ -0,0 +1,100 @@
+import type { BotMeta, QAPair } from "./types";
+
+// Privacy and sensitive-content scanner: pattern rules run over the description and
+// every question and answer before a bot is submitted.
+
+export type Severity = "high" | "medium";
+export type ScanField = "q" | "a" | "description";
+
+export type ScanRule = { id: string; label: string; severity: Severity; pattern: RegExp };
+
+// High-severity findings block submission until they are fixed or explicitly allowed.
+export const SCAN_RULES: ScanRule[] = [
+  {
+    id: "api-key",
+    label: "API key or token",
+    severity: "high",
+    pattern: /\b(?:sk-[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{22,}|AIza[0-9A-Za-z_-]{35}|xox[abprs]-[A-Za-z0-9-]{10,})/g,
+  },
+  {
+    id: "credential",
+    label: "Password or secret",
+    severity: "high",
+    pattern: /\b(?:api[_-]?key|secret|token|password|passwd|pwd)\b\s*[:=]\s*\S{6,}/gi,
+  },
+  {
+    id: "ssn",
+    label: "SSN-like number",
+    severity: "high",
+    pattern: /\b\d{3}[- ]\d{2}[- ]\d{4}\b/g,
+  },
+  {
+    id: "student-id",
+    label: "UMass student ID",
+    severity: "high",
+    pattern: /\b(?:(?:student|spire|umass)\s*(?:id|#|no\.?|number)\D{0,12})?3\d{7}\b/gi,
+  },
+  {
+    id: "door-code",
+    label: "Door or access code",
+    severity: "high",
+    pattern: /\b(?:door|keypad|lock|access|entry|gate|room)\s*(?:code|combo|combination|pin)\b\D{0,15}\d{3,8}\b/gi,
+  },
+  {
+    id: "email",
+    label: "Email address",
+    severity: "medium",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    id: "phone",
+    label: "Phone number",
+    severity: "medium",
+    pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g,
+  },
+];
+
+export type Finding = {
+  key: string; // stable across edits elsewhere: rule + location + matched text
+  ruleId: string;
+  label: string;
+  severity: Severity;
+  pairId?: string;
+  field: ScanField;
+  start: number;
+  end: number;
+  match: string;
+};
+
+// Overlapping matches keep the more severe (then longer) one.
+export function scanText(text: string, field: ScanField, pairId?: string): Finding[] {
+  const found: Finding[] = [];
+  for (const rule of SCAN_RULES) {
+    for (const m of text.matchAll(rule.pattern)) {
+      found.push({
+        key: `${rule.id}|${pairId ?? "meta"}|${field}|${m[0]}`,
+        ruleId: rule.id,
+        label: rule.label,
+        severity: rule.severity,
+        pairId,
+        field,
+        start: m.index,
+        end: m.index + m[0].length,
+        match: m[0],
+      });
+    }
+  }
+  const rank = (f: Finding) => (f.severity === "high" ? 1e6 : 0) + (f.end - f.start);
+  const kept: Finding[] = [];
+  for (const f of found.sort((x, y) => rank(y) - rank(x))) {
+    if (!kept.some(k => f.start < k.end && k.start < f.end)) kept.push(f);
+  }
+  return kept.sort((x, y) => x.start - y.start);
+}
+
+export function scanDraft(meta: BotMeta, pairs: QAPair[]): Finding[] {
+  return [
+    ...scanText(meta.description || "", "description"),
+    ...pairs.flatMap(p => [...scanText(p.q || "", "q", p.id), ...scanText(p.a || "", "a", p.id)]),
+  ];
+}
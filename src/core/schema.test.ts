@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { PAYLOAD_VERSION } from "./types";
+import { OLDEST_PAYLOAD_VERSION, formatIssue, migratePayload, validatePayload } from "./schema";
+
+const validBot = { name: "Bot", lab: "IALS", owner_email: "a@umass.edu", slug: "ials-bot", model: "m", embed_model: "e", temperature: 0.2, top_p: 0.95, answer_format: "markdown" };
+const currentPayload = { version: PAYLOAD_VERSION, created_at: "2025-09-16T00:00:00Z", bot: validBot, pairs: [{ q: "Q", a: "A" }] };
+
+describe("validatePayload", () => {
+  it("accepts a valid payload", () => {
+    expect(validatePayload(currentPayload)).toEqual([]);
+  });
+
+  it("addresses problems by path", () => {
+    const broken = validatePayload({
+      ...currentPayload,
+      bot: { ...validBot, temperature: 3, owner_email: "nope" },
+      pairs: [{ q: "Q", a: "A" }, { q: "Q2", a: " ", tags: "x" }],
+    }).map(formatIssue);
+    expect(broken).toContain("pairs[1].a: empty");
+    expect(broken).toContain("pairs[1].tags: expected array, got string");
+    expect(broken).toContain("bot.temperature: must be between 0 and 2");
+    expect(broken).toContain("bot.owner_email: invalid email");
+  });
+
+  it("reports a non-object payload at the root", () => {
+    expect(formatIssue(validatePayload(null)[0])).toBe("payload: expected object, got null");
+  });
+
+  it("checks pair language codes", () => {
+    expect(validatePayload({ ...currentPayload, pairs: [{ q: "Q", a: "A", lang: "pt-BR", translation_group: "g" }] })).toEqual([]);
+    expect(validatePayload({ ...currentPayload, pairs: [{ q: "Q", a: "A", lang: "Spanish" }] }).map(i => i.path)).toEqual(["pairs[0].lang"]);
+  });
+});
+
+describe("migratePayload", () => {
+  it("upgrades unversioned payloads to the current version", () => {
+    const upgraded = migratePayload({ ...currentPayload, version: undefined, pairs: [{ q: "Q", a: "A", tags: "x, y" }] });
+    expect(upgraded.from).toBe(OLDEST_PAYLOAD_VERSION);
+    expect(upgraded.payload.version).toBe(PAYLOAD_VERSION);
+    expect(upgraded.payload.pairs[0].tags).toEqual(["x", "y"]);
+    expect(validatePayload(upgraded.payload)).toEqual([]);
+  });
+
+  it("treats answers from before answer_format as plain text", () => {
+    expect(migratePayload({ version: OLDEST_PAYLOAD_VERSION, bot: { name: "B" }, pairs: [] }).payload.bot.answer_format).toBe("plain");
+    expect(migratePayload(currentPayload).payload.bot.answer_format).toBe(validBot.answer_format);
+  });
+
+  it("rejects versions that are not dates", () => {
+    expect(() => migratePayload({ ...currentPayload, version: "v3" })).toThrow(/Unknown payload version/);
+  });
+
+  it("refuses payloads from a newer builder", () => {
+    expect(() => migratePayload({ version: "2999-01-01" })).toThrow();
+  });
+});
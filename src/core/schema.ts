@@ -0,0 +1,150 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { PAYLOAD_VERSION } from "./types";
+import { coerceStr } from "./util";
+import { SETTING_RANGES, inRange, type RangedSetting } from "./models";
+import { contactIssue } from "./bot";
+import { isLanguageCode } from "./languages";
+
+// Hand-rolled ExportPayload schema (no dependencies) and the migrations that bring
+// older payload versions up to PAYLOAD_VERSION.
+
+// A problem at a JSON path into the payload, e.g. { path: "pairs[12].a", message: "empty" }
+export type SchemaIssue = { path: string; message: string };
+type Rule = (value: any, path: string) => SchemaIssue[];
+
+export function formatIssue(i: SchemaIssue) {
+  return `${i.path}: ${i.message}`;
+}
+
+function typeName(v: any) {
+  return v === null ? "null" : Array.isArray(v) ? "array" : typeof v;
+}
+
+// Small rule builders for the schema below; optional values may be missing or null.
+function str(opts: { required?: boolean; check?: (s: string) => string | null } = {}): Rule {
+  return (v, path) => {
+    if (v === undefined || v === null) return opts.required ? [{ path, message: "required" }] : [];
+    if (typeof v !== "string") return [{ path, message: `expected string, got ${typeName(v)}` }];
+    if (!v.trim()) return opts.required ? [{ path, message: "empty" }] : [];
+    const problem = opts.check?.(v.trim());
+    return problem ? [{ path, message: problem }] : [];
+  };
+}
+
+function oneOf(...values: string[]): Rule {
+  return (v, path) => (values.includes(v) ? [] : [{ path, message: `expected ${values.map(x => `"${x}"`).join(" or ")}` }]);
+}
+
+function ranged(setting: RangedSetting): Rule {
+  return (v, path) => {
+    const { min, max } = SETTING_RANGES[setting];
+    if (typeof v !== "number") return [{ path, message: v === undefined ? "required" : `expected number, got ${typeName(v)}` }];
+    return inRange(setting, v) ? [] : [{ path, message: `must be between ${min} and ${max}` }];
+  };
+}
+
+export function list(item: Rule, opts: { min?: number; optional?: boolean } = {}): Rule {
+  return (v, path) => {
+    if ((v === undefined || v === null) && opts.optional) return [];
+    if (!Array.isArray(v)) return [{ path, message: v === undefined ? "required" : `expected array, got ${typeName(v)}` }];
+    if (opts.min && v.length < opts.min) return [{ path, message: `needs at least ${opts.min} item${opts.min === 1 ? "" : "s"}` }];
+    return v.flatMap((x, i) => item(x, `${path}[${i}]`));
+  };
+}
+
+// Unknown keys are allowed (e.g. server-side pair ids) and not reported.
+function shape(fields: Record<string, Rule>): Rule {
+  return (v, path) => {
+    if (v === null || typeof v !== "object" || Array.isArray(v)) {
+      return [{ path: path || "payload", message: `expected object, got ${typeName(v)}` }];
+    }
+    return Object.entries(fields).flatMap(([k, rule]) => rule(v[k], path ? `${path}.${k}` : k));
+  };
+}
+
+const DOCUMENT_SHAPE = shape({
+  name: str({ required: true }),
+  format: oneOf("markdown", "text", "html"),
+  text: str({ required: true }),
+  chunk_size: ranged("chunkSize"),
+  chunk_overlap: ranged("chunkOverlap"),
+  chunks: list(str({ required: true }), { min: 1 }),
+});
+
+// The overlap is checked against its own document's chunk size.
+const documentRule: Rule = (v, path) => {
+  const issues = DOCUMENT_SHAPE(v, path);
+  if (!issues.length && v.chunk_overlap * 2 > v.chunk_size) {
+    issues.push({ path: `${path}.chunk_overlap`, message: "must be at most half of chunk_size" });
+  }
+  return issues;
+};
+
+const PAYLOAD_SCHEMA: Rule = shape({
+  version: (v, path) => (v === PAYLOAD_VERSION ? [] : [{ path, message: `expected "${PAYLOAD_VERSION}", got ${JSON.stringify(v)}` }]),
+  created_at: str({ required: true, check: s => (Number.isNaN(Date.parse(s)) ? "not a date" : null) }),
+  bot: shape({
+    name: str({ required: true }),
+    lab: str({ required: true }),
+    owner_email: str({ required: true, check: s => (/.+@.+\..+/.test(s) ? null : "invalid email") }),
+    description: str(),
+    slug: str({ required: true, check: s => (/^[a-z0-9-]+$/.test(s) ? null : "use lowercase letters, digits and dashes") }),
+    model: str({ required: true }),
+    embed_model: str({ required: true }),
+    temperature: ranged("temperature"),
+    top_p: ranged("topP"),
+    system_prompt: str(),
+    greeting: str(),
+    fallback_message: str(),
+    escalation_contact: str({ check: s => (contactIssue(s) ? "expected an email address or http(s) link" : null) }),
+    refused_topics: list(str({ required: true }), { optional: true }),
+    answer_format: oneOf("markdown", "plain"),
+  }),
+  pairs: list(shape({
+    q: str({ required: true }),
+    a: str({ required: true }),
+    tags: list(str({ required: true }), { optional: true }),
+    variants: list(str({ required: true }), { optional: true }),
+    lang: str({ check: s => (isLanguageCode(s) ? null : "expected a language code such as \"es\" or \"pt-BR\"") }),
+    translation_group: str(),
+  }), { min: 1 }),
+  documents: list(documentRule, { optional: true }),
+});
+
+/** Checks a payload (already migrated to PAYLOAD_VERSION) against the schema; [] means valid. */
+export function validatePayload(payload: any): SchemaIssue[] {
+  return PAYLOAD_SCHEMA(payload, "");
+}
+
+// Payloads without a version predate versioning and are treated as this one.
+export const OLDEST_PAYLOAD_VERSION = "2025-09-16";
+
+// Applied in order to anything older than `to`; one step per released version.
+// Versions are ISO dates, so they compare as strings.
+const PAYLOAD_MIGRATIONS: Array<{ to: string; migrate: (p: any) => any }> = [
+  {
+    // Added behavior fields, `variants`, reference `documents`, `lang` and
+    // `translation_group` (all optional) and `bot.answer_format`: answers written
+    // before it were plain text. Hand-edited files of the previous version
+    // sometimes carried tags as one comma-separated string.
+    to: "2026-10-19",
+    migrate: p => ({
+      ...p,
+      bot: p?.bot && typeof p.bot === "object" ? { answer_format: "plain", ...p.bot } : p?.bot,
+      pairs: Array.isArray(p?.pairs)
+        ? p.pairs.map((x: any) => (typeof x?.tags === "string" ? { ...x, tags: x.tags.split(",").map((t: string) => t.trim()).filter(Boolean) } : x))
+        : p?.pairs,
+    }),
+  },
+];
+
+/** Upgrades a parsed payload to PAYLOAD_VERSION; throws for versions newer than this builder. */
+export function migratePayload(raw: any): { payload: any; from: string } {
+  const from = coerceStr(raw?.version) || OLDEST_PAYLOAD_VERSION;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from)) throw new Error(`Unknown payload version "${from}"; expected a date such as ${PAYLOAD_VERSION}.`);
+  if (from > PAYLOAD_VERSION) {
+    throw new Error(`Payload version ${from} is newer than this builder supports (${PAYLOAD_VERSION}). Please reload the page to update.`);
+  }
+  const payload = PAYLOAD_MIGRATIONS.filter(m => from < m.to).reduce((p, m) => m.migrate(p), raw);
+  return { payload: { ...payload, version: PAYLOAD_VERSION }, from };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import type { QAPair } from "./types";
+import { filterPairs, tagFacets, termRanges, UNTAGGED } from "./search";
+
+const listed: QAPair[] = [
+  { id: "s1", q: "Where is the lab?", a: "Room 204", tags: ["location"] },
+  { id: "s2", q: "Office hours?", a: "Tuesdays", tags: ["hours", "faq"] },
+  { id: "s3", q: "Lab safety rules?", a: "Wear goggles", tags: [] },
+  { id: "s4", q: "Who runs the lab?", a: "Dr. Smith", tags: ["faq"], variants: ["Who is the PI?"] },
+];
+
+describe("filterPairs", () => {
+  it("matches every term, ignoring case, across questions and alternate phrasings", () => {
+    expect(filterPairs(listed, "LAB", null)).toEqual([0, 2, 3]);
+    expect(filterPairs(listed, "lab faq", null)).toEqual([3]);
+    expect(filterPairs(listed, "pi", null)).toEqual([3]);
+  });
+
+  it("filters by tag, including untagged pairs", () => {
+    expect(filterPairs(listed, "", UNTAGGED)).toEqual([2]);
+    expect(filterPairs(listed, "", "faq")).toEqual([1, 3]);
+  });
+});
+
+describe("tagFacets", () => {
+  it("counts tags, most used first", () => {
+    expect(tagFacets(listed).map(f => `${f.tag || "-"}:${f.count}`)).toEqual(["faq:2", "-:1", "hours:1", "location:1"]);
+  });
+});
+
+describe("termRanges", () => {
+  it("merges overlapping hits", () => {
+    expect(termRanges("Lab lab-labs", ["lab", "labs"])).toEqual([{ start: 0, end: 3 }, { start: 4, end: 7 }, { start: 8, end: 12 }]);
+  });
+});
@@ -0,0 +1,60 @@
+import type { QAPair } from "./types";
+
+// Search over pairs and tag facets for the editor's filtered view.
+
+// Facet value for pairs without tags (not a valid tag, since tags are trimmed and non-empty)
+export const UNTAGGED = "";
+
+export type TextRange = { start: number; end: number };
+
+export function searchTerms(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+// Every term must appear somewhere in the question, answer, tags or alternate phrasings.
+function pairMatches(p: QAPair, terms: string[]): boolean {
+  if (!terms.length) return true;
+  const hay = [p.q, p.a, ...(p.tags ?? []), ...(p.variants ?? [])].join("\n").toLowerCase();
+  return terms.every(t => hay.includes(t));
+}
+
+function hasTag(p: QAPair, tag: string) {
+  return tag === UNTAGGED ? !p.tags?.length : Boolean(p.tags?.includes(tag));
+}
+
+/** Positions (into `pairs`) of the pairs matching the search and, when given, the tag facet. */
+export function filterPairs(pairs: QAPair[], query: string, tag: string | null): number[] {
+  const terms = searchTerms(query);
+  const out: number[] = [];
+  pairs.forEach((p, i) => {
+    if (pairMatches(p, terms) && (tag === null || hasTag(p, tag))) out.push(i);
+  });
+  return out;
+}
+
+// Tag counts, most used first; untagged pairs are counted under UNTAGGED.
+export function tagFacets(pairs: QAPair[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const p of pairs) {
+    for (const t of p.tags?.length ? new Set(p.tags) : [UNTAGGED]) counts.set(t, (counts.get(t) ?? 0) + 1);
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((x, y) => y.count - x.count || x.tag.localeCompare(y.tag));
+}
+
+// Non-overlapping ranges of `text` matching any term, for highlighting.
+export function termRanges(text: string, terms: string[]): TextRange[] {
+  const lower = text.toLowerCase();
+  const found: TextRange[] = [];
+  for (const t of terms) {
+    for (let at = lower.indexOf(t); at >= 0; at = lower.indexOf(t, at + t.length)) found.push({ start: at, end: at + t.length });
+  }
+  found.sort((x, y) => x.start - y.start || y.end - x.end);
+  const merged: TextRange[] = [];
+  for (const r of found) {
+    const last = merged[merged.length - 1];
+    if (last && r.start <= last.end) last.end = Math.max(last.end, r.end);
+    else merged.push({ ...r });
+  }
+  return merged;
+}
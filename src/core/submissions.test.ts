@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { ExportPayload } from "./types";
+import { applyStatusReport, fetchSubmissionStatus, isPending, submissionFromResponse } from "./submissions";
+
+const payload = { bot: { name: "Bot", slug: "lab-bot" } } as ExportPayload;
+const submitted = submissionFromResponse({ id: "r1", slug: "ials-bot", status: "queued", created_at: "2025-01-01T00:00:00Z" }, payload, "http://b");
+
+describe("submissionFromResponse", () => {
+  it("reads the request id, slug and status", () => {
+    expect(submitted).toMatchObject({ id: "r1", slug: "ials-bot", status: "queued", botName: "Bot" });
+    expect(submitted.history).toHaveLength(1);
+    expect(isPending(submitted)).toBe(true);
+  });
+
+  it("falls back to the slug for the id", () => {
+    expect(submissionFromResponse({}, payload, "http://b").id).toBe("lab-bot");
+  });
+});
+
+describe("applyStatusReport", () => {
+  it("records status changes only", () => {
+    const building = applyStatusReport(submitted, { status: "building" }, "2025-01-01T00:01:00Z");
+    const stillBuilding = applyStatusReport(building, { status: "building" }, "2025-01-01T00:02:00Z");
+    expect(stillBuilding.history).toHaveLength(2);
+    expect(stillBuilding.lastCheckedAt).toBe("2025-01-01T00:02:00Z");
+  });
+
+  it("keeps the chat URL once deployed and a reason when failed", () => {
+    const live = applyStatusReport(submitted, { status: "deployed", chat_url: "https://chat/x" });
+    expect(live).toMatchObject({ status: "deployed", chatUrl: "https://chat/x" });
+    expect(isPending(live)).toBe(false);
+    expect(applyStatusReport(submitted, { status: "failed" }).error).toBeTruthy();
+  });
+});
+
+describe("fetchSubmissionStatus", () => {
+  it("asks the backend the submission went to", async () => {
+    const urls: string[] = [];
+    const fetchImpl = (async (url: string) => {
+      urls.push(url);
+      return new Response(JSON.stringify({ status: "building" }));
+    }) as unknown as typeof fetch;
+    expect((await fetchSubmissionStatus(submitted, fetchImpl)).status).toBe("building");
+    expect(urls).toEqual(["http://b/chatbots/r1/status"]);
+  });
+
+  it("notes a failed check without changing the status", async () => {
+    const fetchImpl = (async () => new Response("", { status: 502 })) as unknown as typeof fetch;
+    const checked = await fetchSubmissionStatus(submitted, fetchImpl);
+    expect(checked.status).toBe("queued");
+    expect(checked.checkError).toContain("HTTP 502");
+  });
+});
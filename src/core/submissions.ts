@@ -0,0 +1,66 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { ExportPayload } from "./types";
+import { coerceStr } from "./util";
+
+// Submission tracking: what POST /chatbots answered, and the deployment status polled
+// from GET /chatbots/{id}/status afterwards.
+
+export type DeployStatus = "queued" | "building" | "deployed" | "failed";
+const DEPLOY_STATUSES: DeployStatus[] = ["queued", "building", "deployed", "failed"];
+
+export type Submission = {
+  id: string; // request ID returned by POST /chatbots (falls back to the slug)
+  slug: string;
+  botName: string;
+  backend: string; // base URL it was submitted to; status is polled there
+  submittedAt: string;
+  status: DeployStatus;
+  history: Array<{ status: DeployStatus; at: string }>;
+  chatUrl?: string;
+  error?: string; // failure reason reported by the backend
+  lastCheckedAt?: string;
+  checkError?: string; // the status endpoint itself could not be reached
+};
+
+export function isPending(s: Submission) {
+  return s.status === "queued" || s.status === "building";
+}
+
+export function submissionFromResponse(data: any, payload: ExportPayload, backend: string, now = new Date().toISOString()): Submission {
+  const status: DeployStatus = DEPLOY_STATUSES.includes(data?.status) ? data.status : "queued";
+  const slug = coerceStr(data?.slug) || payload.bot.slug;
+  return {
+    id: coerceStr(data?.id ?? data?.request_id) || slug,
+    slug,
+    botName: payload.bot.name,
+    backend,
+    submittedAt: coerceStr(data?.created_at) || now,
+    status,
+    history: [{ status, at: coerceStr(data?.created_at) || now }],
+  };
+}
+
+// Folds a GET /chatbots/{id}/status report into the entry, recording status changes in history.
+export function applyStatusReport(sub: Submission, report: any, now = new Date().toISOString()): Submission {
+  const status: DeployStatus = DEPLOY_STATUSES.includes(report?.status) ? report.status : sub.status;
+  const changed = status !== sub.status;
+  return {
+    ...sub,
+    status,
+    history: changed ? [...sub.history, { status, at: coerceStr(report?.updated_at) || now }] : sub.history,
+    chatUrl: coerceStr(report?.chat_url) || sub.chatUrl,
+    error: status === "failed" ? coerceStr(report?.error) || "The backend reported a failed deployment." : undefined,
+    lastCheckedAt: now,
+    checkError: undefined,
+  };
+}
+
+export async function fetchSubmissionStatus(sub: Submission, fetchImpl: typeof fetch = fetch): Promise<Submission> {
+  try {
+    const res = await fetchImpl(`${sub.backend.replace(/\/+$/, "")}/chatbots/${encodeURIComponent(sub.id)}/status`, { cache: "no-store" });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return applyStatusReport(sub, await res.json());
+  } catch (e: any) {
+    return { ...sub, lastCheckedAt: new Date().toISOString(), checkError: `Status check failed. ${e?.message || e}` };
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { ExportPayload } from "./types";
+import { backendUrls, isRetryableError, parseTargetsEnv, submitPayload } from "./submit";
+
+const payload = { bot: { name: "Bot", slug: "ials-bot" }, pairs: [] } as unknown as ExportPayload;
+
+function recordingFetch(status: number, body: string) {
+  const calls: Array<{ url: string; init?: RequestInit }> = [];
+  const fetchImpl = (async (url: string, init?: RequestInit) => {
+    calls.push({ url, init });
+    return new Response(body, { status });
+  }) as unknown as typeof fetch;
+  return { calls, fetchImpl };
+}
+
+describe("backendUrls", () => {
+  it("trims the trailing slash", () => {
+    expect(backendUrls("http://x:1/").submit).toBe("http://x:1/chatbots");
+  });
+});
+
+describe("parseTargetsEnv", () => {
+  it("reads name=url entries and skips malformed ones", () => {
+    const targets = parseTargetsEnv("staging=https://staging.example.edu/, bad entry ,local=http://localhost:8081");
+    expect(targets.map(t => `${t.name}:${t.base}`)).toEqual(["staging:https://staging.example.edu", "local:http://localhost:8081"]);
+  });
+});
+
+describe("submitPayload", () => {
+  it("sends the idempotency key and the owner's token", async () => {
+    const { calls, fetchImpl } = recordingFetch(202, JSON.stringify({ id: "r1" }));
+    await expect(submitPayload("http://b/", payload, { idempotencyKey: "k1", token: "t0k", fetchImpl })).resolves.toEqual({ id: "r1" });
+    expect(calls[0].url).toBe("http://b/chatbots");
+    expect(calls[0].init?.headers).toMatchObject({ "Idempotency-Key": "k1", Authorization: "Bearer t0k" });
+    expect(JSON.parse(String(calls[0].init?.body))).toEqual(payload);
+  });
+
+  it("throws with the HTTP status", async () => {
+    const { fetchImpl } = recordingFetch(503, "busy");
+    await expect(submitPayload("http://b", payload, { fetchImpl })).rejects.toMatchObject({ status: 503, message: "HTTP 503 — busy" });
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries network failures, 5xx, timeouts and rate limits", () => {
+    expect(isRetryableError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError({ status: 408 })).toBe(true);
+    expect(isRetryableError({ status: 429 })).toBe(true);
+  });
+
+  it("does not retry other rejections", () => {
+    expect(isRetryableError({ status: 422 })).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { ExportPayload } from "./types";
+import { bearerHeaders } from "./auth";
+
+export function backendUrls(base: string) {
+  const root = base.replace(/\/+$/, "");
+  return { submit: `${root}/chatbots`, health: `${root}/health`, models: `${root}/models` };
+}
+
+/**
+ * POSTs a payload to `{base}/chatbots`; resolves to the response body, throws with the HTTP status otherwise.
+ * An idempotency key lets the backend recognize a retry of a request it already handled; the
+ * token is the owner's sign-in (see ./auth).
+ */
+export async function submitPayload(
+  base: string,
+  payload: ExportPayload,
+  opts: { idempotencyKey?: string; token?: string; fetchImpl?: typeof fetch } = {}
+): Promise<any> {
+  const { idempotencyKey, token, fetchImpl = fetch } = opts;
+  const res = await fetchImpl(backendUrls(base).submit, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...bearerHeaders(token),
+      ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw Object.assign(new Error(`HTTP ${res.status}${text ? ` — ${text.slice(0, 200)}` : ""}`), { status: res.status });
+  }
+  return res.json().catch(() => ({}));
+}
+
+/** Network failures (no HTTP status), timeouts, rate limits and 5xx may succeed later; other rejections will not. */
+export function isRetryableError(e: any) {
+  const status = e?.status;
+  return typeof status !== "number" || status >= 500 || status === 408 || status === 429;
+}
+
+export type BackendTarget = { id: string; name: string; base: string; builtin?: boolean };
+
+// "name=url,name=url" -> targets; malformed entries are skipped.
+export function parseTargetsEnv(raw = ""): BackendTarget[] {
+  return raw
+    .split(",")
+    .map(entry => entry.trim().match(/^([^=]+)=(\S+)$/))
+    .filter((m): m is RegExpMatchArray => Boolean(m))
+    .map(m => ({ id: m[1].trim(), name: m[1].trim(), base: m[2].replace(/\/+$/, ""), builtin: true }));
+}
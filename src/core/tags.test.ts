@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { QAPair } from "./types";
+import { tagFacets } from "./search";
+import { canonicalTag, DEFAULT_TAG_RULES, lookalikeTags, normalizeAllTags, normalizeTag, renameTags } from "./tags";
+
+const messy: QAPair[] = [
+  { id: "t1", q: "Q1", a: "A1", tags: ["office-hours", "faq"] },
+  { id: "t2", q: "Q2", a: "A2", tags: ["Office Hours"] },
+  { id: "t3", q: "Q3", a: "A3", tags: ["officehours", "office-hours"] },
+  { id: "t4", q: "Q4", a: "A4", tags: [] },
+];
+
+describe("normalizeTag", () => {
+  it("only tidies whitespace by default", () => {
+    expect(normalizeTag("  Office  Hours ", DEFAULT_TAG_RULES)).toBe("Office Hours");
+  });
+
+  it("applies case and separator rules", () => {
+    expect(normalizeTag("Office Hours_Spring", { case: "lower", separator: "-" })).toBe("office-hours-spring");
+  });
+});
+
+describe("canonicalTag", () => {
+  it("snaps typed tags to an existing spelling", () => {
+    expect(canonicalTag("Office Hours", DEFAULT_TAG_RULES, ["office-hours"])).toBe("office-hours");
+  });
+
+  it("does not snap to spellings the rules would change", () => {
+    expect(canonicalTag("Office Hours", { case: "lower", separator: "keep" }, ["OfficeHours"])).toBe("office hours");
+  });
+});
+
+describe("tag manager", () => {
+  it("groups look-alike spellings, most used first", () => {
+    expect(lookalikeTags(tagFacets(messy))).toEqual([["office-hours", "Office Hours", "officehours"]]);
+  });
+
+  it("merges and removes tags", () => {
+    const merged = renameTags(messy, ["Office Hours", "officehours"], "office-hours");
+    expect(merged[1].tags).toEqual(["office-hours"]);
+    expect(merged[2].tags).toEqual(["office-hours"]);
+    expect(merged[3]).toBe(messy[3]);
+    expect(renameTags(messy, ["faq"], "")[0].tags).toEqual(["office-hours"]);
+  });
+
+  it("normalizes every tag, keeping untouched pairs", () => {
+    const tidied = normalizeAllTags(messy, { case: "lower", separator: "-" });
+    expect(tidied[1].tags).toEqual(["office-hours"]);
+    expect(tidied[0]).toBe(messy[0]);
+  });
+});
@@ -0,0 +1,60 @@
+import type { QAPair } from "./types";
+import { UNTAGGED } from "./search";
+
+// Tag management: normalization rules, look-alike spellings, rename and merge.
+
+// Optional per-draft normalization applied to tags as they are entered (and, on
+// request, to every existing tag). "keep" leaves that aspect as typed.
+export type TagRules = { case: "keep" | "lower"; separator: "keep" | "-" | "_" };
+export const DEFAULT_TAG_RULES: TagRules = { case: "keep", separator: "keep" };
+
+export function normalizeTag(tag: string, rules: TagRules): string {
+  let t = tag.replace(/,/g, " ").trim().replace(/\s+/g, " ");
+  if (rules.separator !== "keep") t = t.replace(/[\s_-]+/g, rules.separator);
+  return rules.case === "lower" ? t.toLowerCase() : t;
+}
+
+// Spelling-insensitive identity: "office-hours", "Office Hours" and "officehours" collide
+function tagKey(tag: string) {
+  return tag.toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+export function uniqueTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.filter(Boolean)));
+}
+
+/** Replaces every tag in `from` with `to` (or drops them when `to` is empty), keeping positions. */
+export function renameTags(pairs: QAPair[], from: string[], to: string): QAPair[] {
+  const old = new Set(from);
+  return pairs.map(p => {
+    if (!p.tags?.some(t => old.has(t))) return p;
+    return { ...p, tags: uniqueTags(p.tags.map(t => (old.has(t) ? to : t))) };
+  });
+}
+
+export function normalizeAllTags(pairs: QAPair[], rules: TagRules): QAPair[] {
+  return pairs.map(p => {
+    const tags = uniqueTags((p.tags ?? []).map(t => normalizeTag(t, rules)));
+    return tags.join("\n") === (p.tags ?? []).join("\n") ? p : { ...p, tags };
+  });
+}
+
+/**
+ * Groups of differently spelled tags that are probably the same tag, most used
+ * spelling first (the suggested merge target). Input is tagFacets output.
+ */
+export function lookalikeTags(facets: { tag: string; count: number }[]): string[][] {
+  const groups = new Map<string, string[]>();
+  for (const { tag } of facets) {
+    if (tag === UNTAGGED) continue;
+    const key = tagKey(tag);
+    groups.set(key, [...(groups.get(key) ?? []), tag]);
+  }
+  return Array.from(groups.values()).filter(g => g.length > 1);
+}
+
+// Normalizes a typed tag and snaps it to an existing spelling of the same tag, if any
+export function canonicalTag(tag: string, rules: TagRules, known: string[]): string {
+  const t = normalizeTag(tag, rules);
+  return known.find(k => tagKey(k) === tagKey(t) && normalizeTag(k, rules) === k) ?? t;
+}
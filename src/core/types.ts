@@ -0,0 +1,84 @@
+/**
+ * Shapes shared by the editor, the export formats and the backend payload.
+ */
+
+export type AnswerFormat = "markdown" | "plain";
+
+export type QAPair = {
+  id: string;
+  q: string;
+  a: string;
+  tags?: string[];
+  variants?: string[]; // alternate phrasings of q, e.g. from merging near-duplicates
+  lang?: string; // language code ("es", "pt-BR"); unset = detected from the text
+  group?: string; // translation group: pairs sharing it are the same pair in other languages
+};
+
+export type DocumentFormat = "markdown" | "text" | "html";
+
+// A reference document (syllabus, SOP, manual) the bot retrieves from alongside the pairs
+export type RefDocument = {
+  id: string;
+  name: string; // file name it was uploaded as
+  format: DocumentFormat; // what the upload was; `text` is always the cleaned version
+  text: string;
+  chunkSize: number; // characters per chunk
+  chunkOverlap: number; // characters repeated from the end of the previous chunk
+};
+
+export type BotMeta = {
+  lab: string;
+  botName: string;
+  ownerEmail: string;
+  description?: string;
+  baseModel: string; // e.g., "qwen2.5:7b-instruct"
+  embedModel: string; // e.g., "nomic-embed-text"
+  temperature: number;
+  topP: number;
+  // Behavior (payload version 2026-10-19 and later)
+  systemPrompt?: string; // persona / extra instructions for the model
+  greeting?: string; // first message shown to users
+  fallbackMessage?: string; // reply when no pair matches
+  escalationContact?: string; // office-hours link or TA email
+  refusedTopics?: string[]; // one topic per entry; may hold blanks while editing
+  answerFormat?: AnswerFormat; // how the bot renders answers (missing = markdown)
+};
+
+// The release date of the payload format, bumped once per release that changes
+// ExportPayload (not per field); older payloads still import.
+export const PAYLOAD_VERSION = "2026-10-19";
+
+export type ExportPayload = {
+  bot: {
+    name: string;
+    lab: string;
+    owner_email: string;
+    description?: string;
+    slug: string;
+    model: string;
+    embed_model: string;
+    temperature: number;
+    top_p: number;
+    system_prompt?: string;
+    greeting?: string;
+    fallback_message?: string;
+    escalation_contact?: string;
+    refused_topics?: string[];
+    answer_format: AnswerFormat;
+  };
+  pairs: Array<{ q: string; a: string; tags?: string[]; variants?: string[]; lang?: string; translation_group?: string }>;
+  // Left out when the bot has none
+  documents?: Array<{
+    name: string;
+    format: DocumentFormat;
+    text: string;
+    chunk_size: number;
+    chunk_overlap: number;
+    chunks: string[];
+  }>;
+  created_at: string;
+  version: string;
+};
+
+export type PayloadPair = ExportPayload["pairs"][number];
+export type PayloadDocument = NonNullable<ExportPayload["documents"]>[number];
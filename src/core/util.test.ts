@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { normalizeQuestion, slugify, uniqueVariants } from "./util";
+
+describe("slugify", () => {
+  it("lowercases and dashes words", () => {
+    expect(slugify("Hello World!")).toBe("hello-world");
+  });
+
+  it("drops em-dashes and other punctuation", () => {
+    expect(slugify("IALS — Houmansadr Lab")).toBe("ials-houmansadr-lab");
+  });
+});
+
+describe("uniqueVariants", () => {
+  it("drops blanks and repeats of the question, compared normalized", () => {
+    expect(normalizeQuestion(" Where's the LAB? ")).toBe("where s the lab");
+    expect(uniqueVariants("Hours?", [" ", "hours", "When open?", "when open"])).toEqual(["When open?"]);
+  });
+});
@@ -0,0 +1,44 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+export function uid() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function slugify(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-");
+}
+
+export function coerceStr(x: any): string {
+  return (typeof x === "string" ? x : String(x ?? "")).trim();
+}
+
+export function normalizeQuestion(q: string): string {
+  return q
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Drops blanks and repeats of the primary question or of each other (compared normalized).
+export function uniqueVariants(q: string, variants: string[]): string[] {
+  const seen = new Set([normalizeQuestion(q)]);
+  const out: string[] = [];
+  for (const v of variants) {
+    const key = normalizeQuestion(v);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push(v.trim());
+  }
+  return out;
+}
+
+export function sameTags(x: string[] = [], y: string[] = []): boolean {
+  return x.length === y.length && x.every((t, i) => t === y[i]);
+}
@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Default backend for the "prod" target, e.g. http://128.119.128.176:8081 */
+  readonly VITE_BACKEND_BASE?: string;
+  /** Extra named targets, comma-separated name=url pairs, e.g. staging=https://staging.example.edu */
+  readonly VITE_BACKEND_TARGETS?: string;
+  /** Base URL of deployed bots' chat endpoints ({base}/chat/{slug}) for regression tests; unset = the active backend */
+  readonly VITE_CHAT_BASE?: string;
+  /** Sign-in issuer serving POST /otp/start and /otp/verify; unset = the mock issuer on localhost:8090 in dev, sign-in disabled otherwise */
+  readonly VITE_AUTH_ISSUER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -2,9 +2,11 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [
     react(),
     tailwindcss(),
   ],
-})
\ No newline at end of file
+  // `npm run build:core` bundles src/core for the CLI, which needs none of public/
+  build: isSsrBuild ? { copyPublicDir: false } : undefined,
+}))